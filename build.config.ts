@@ -5,6 +5,10 @@ export default defineBuildConfig({
   externals: ["@nuxt/kit"],
   entries: [
     "src/module",
+    {
+      input: "src/cli/typegen",
+      name: "cli/typegen",
+    },
     {
       input: "src/runtime/",
       outDir: "dist/runtime",
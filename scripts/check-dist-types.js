@@ -0,0 +1,117 @@
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Type-check the built package the way the module's type templates use it
+const dist = path.join(__dirname, '../dist');
+const typesEntry = path.join(dist, 'index');
+const checkDir = path.join(dist, '.type-check');
+
+const composable = (name) => JSON.stringify(path.join(dist, 'composables', name));
+
+// Generated types of a `posts` table, as the `typegen` option writes them
+const snapshot = {
+  tables: [
+    {
+      name: 'posts',
+      columns: [
+        { name: 'id', type: 'int', isNullable: false, isPrimary: true },
+        { name: 'title', type: 'varchar', isNullable: false, isPrimary: false },
+      ],
+      relations: [],
+    },
+  ],
+};
+
+const fixture = `import type {
+  EnfyraPageMeta,
+  EnfyraAuthHooks,
+  EnfyraProxyContext,
+  EnfyraServerAuthHooks,
+} from ${JSON.stringify(typesEntry)};
+import { useEnfyraApi } from ${composable('useEnfyraApi')};
+import { useEnfyraResource } from ${composable('useEnfyraResource')};
+
+// Each expected error fails the check when a type degraded to \`any\`
+const pageMeta: EnfyraPageMeta = { auth: true, requires: ['/posts'] };
+// @ts-expect-error requires takes paths
+const badPageMeta: EnfyraPageMeta = { requires: 1 };
+// @ts-expect-error the login hook gets the login response
+const badAppHook: EnfyraAuthHooks['enfyra:login'] = (context: { url: string }) => {};
+
+const proxyPath = (context: EnfyraProxyContext): string => context.path;
+// @ts-expect-error blocked is a boolean
+const badProxyBlocked = (context: EnfyraProxyContext): string => context.blocked;
+// @ts-expect-error the server login hook gets the event
+const badServerHook: EnfyraServerAuthHooks['enfyra:login'] = (context: { url: string }) => {};
+
+const posts = useEnfyraApi('/posts');
+const postTitle: string | undefined = posts.data.value?.data[0]?.title;
+// @ts-expect-error generated from the posts table
+const badPostTitle: number | undefined = posts.data.value?.data[0]?.title;
+// @ts-expect-error the path is required
+useEnfyraResource();
+
+export {
+  pageMeta,
+  badPageMeta,
+  badAppHook,
+  proxyPath,
+  badProxyBlocked,
+  badServerHook,
+  postTitle,
+  badPostTitle,
+};
+`;
+
+if (!fs.existsSync(`${typesEntry}.d.ts`)) {
+  console.error(`❌ Missing ${typesEntry}.d.ts`);
+  process.exit(1);
+}
+
+async function main() {
+  const { generateSchemaTypes } = await import(
+    path.join(dist, 'utils/typegen.mjs')
+  );
+
+  fs.mkdirSync(checkDir, { recursive: true });
+  const fixtureFile = path.join(checkDir, 'fixture.ts');
+  const schemaFile = path.join(checkDir, 'enfyra.d.ts');
+  fs.writeFileSync(fixtureFile, fixture);
+  fs.writeFileSync(schemaFile, generateSchemaTypes(snapshot, typesEntry));
+
+  const program = ts.createProgram([fixtureFile, schemaFile], {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+  });
+  return ts.getPreEmitDiagnostics(program);
+}
+
+main()
+  .then((diagnostics) => {
+    if (diagnostics.length > 0) {
+      console.error(
+        ts.formatDiagnostics(diagnostics, {
+          getCanonicalFileName: (name) => name,
+          getCurrentDirectory: () => process.cwd(),
+          getNewLine: () => '\n',
+        })
+      );
+      console.error('❌ Built types do not check');
+      process.exitCode = 1;
+    } else {
+      console.log('✅ Checked built types');
+    }
+  })
+  .catch((error) => {
+    console.error('❌ Could not check built types:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    fs.rmSync(checkDir, { recursive: true, force: true });
+  });
@@ -2,17 +2,29 @@ const fs = require('fs');
 const path = require('path');
 
 // Copy composables function signatures to proper locations
-const useEnfyraAuthTypes = `import type { LoginPayload, User } from "../types/auth";
+const useEnfyraAuthTypes = `import type { LoginPayload, LoginWithOptions, User } from "../auth";
 import type { Ref, ComputedRef } from 'vue';
 export declare function useEnfyraAuth(): {
     me: Ref<User | null>;
     login: (payload: LoginPayload) => Promise<any>;
     logout: () => Promise<void>;
     fetchUser: (options?: { fields?: string[] }) => Promise<void>;
+    loginWith: (provider: string, options?: LoginWithOptions) => Promise<void>;
     isLoggedIn: ComputedRef<boolean>;
 };`;
 
-const useEnfyraApiTypes = `import type { ApiOptions, UseEnfyraApiSSRReturn, UseEnfyraApiClientReturn } from "../types";
+const useEnfyraApiTypes = `import type { ApiOptions, UseEnfyraApiSSRReturn, UseEnfyraApiClientReturn, EnfyraPath, EnfyraPathTypes, PaginatedResponse } from "../index";
+
+// Paths from the generated schema types infer their record type
+export declare function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+    path: P,
+    opts: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & { ssr: true }
+): UseEnfyraApiSSRReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
+
+export declare function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+    path: P,
+    opts?: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & { ssr?: false | undefined }
+): UseEnfyraApiClientReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
 
 // Function overloads for proper TypeScript support
 export declare function useEnfyraApi<T = any>(
@@ -27,16 +39,56 @@ export declare function useEnfyraApi<T = any>(
 
 // Main composables.d.ts content
 const mainComposablesTypes = `import type { Ref, ComputedRef } from 'vue';
-import type { LoginPayload, User, ApiOptions, UseEnfyraApiSSRReturn, UseEnfyraApiClientReturn } from './index';
+import type { LoginPayload, LoginWithOptions, User, ApiOptions, UseEnfyraApiSSRReturn, UseEnfyraApiClientReturn, UseEnfyraPermissionsReturn, PaginatedOptions, UseEnfyraPaginatedReturn, ResourceOptions, UseEnfyraResourceReturn, UseEnfyraCacheReturn, RealtimeOptions, UseEnfyraRealtimeReturn, UploadOptions, UseEnfyraUploadReturn, UseEnfyraAssetReturn, UseEnfyraSessionReturn, EnfyraPath, EnfyraPathTypes, PaginatedResponse } from './index';
 
 export declare function useEnfyraAuth(): {
     me: Ref<User | null>;
     login: (payload: LoginPayload) => Promise<any>;
     logout: () => Promise<void>;
     fetchUser: (options?: { fields?: string[] }) => Promise<void>;
+    loginWith: (provider: string, options?: LoginWithOptions) => Promise<void>;
     isLoggedIn: ComputedRef<boolean>;
 };
 
+export declare function useEnfyraPermissions(): UseEnfyraPermissionsReturn;
+
+export declare function useEnfyraPaginated<T = any>(
+    path: (() => string) | string,
+    opts?: PaginatedOptions
+): UseEnfyraPaginatedReturn<T>;
+
+export declare function useEnfyraResource<T extends Record<string, any> = any>(
+    path: (() => string) | string,
+    opts?: ResourceOptions
+): UseEnfyraResourceReturn<T>;
+
+export declare function useEnfyraCache(): UseEnfyraCacheReturn;
+
+export declare function useEnfyraRealtime<T = any>(
+    path: (() => string) | string,
+    opts?: RealtimeOptions<T>
+): UseEnfyraRealtimeReturn<T>;
+
+export declare function useEnfyraUpload<T = any>(
+    path: (() => string) | string,
+    opts?: UploadOptions
+): UseEnfyraUploadReturn<T>;
+
+export declare function useEnfyraAsset(): UseEnfyraAssetReturn;
+
+export declare function useEnfyraSession(): UseEnfyraSessionReturn;
+
+// Paths from the generated schema types infer their record type
+export declare function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+    path: P,
+    opts: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & { ssr: true }
+): UseEnfyraApiSSRReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
+
+export declare function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+    path: P,
+    opts?: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & { ssr?: false | undefined }
+): UseEnfyraApiClientReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
+
 // Function overloads for proper TypeScript support
 export declare function useEnfyraApi<T = any>(
     path: (() => string) | string,
@@ -55,6 +107,23 @@ fs.writeFileSync(path.join(__dirname, '../dist/composables/useEnfyraApi.d.ts'),
 // Write main composables.d.ts
 fs.writeFileSync(path.join(__dirname, '../dist/composables.d.ts'), mainComposablesTypes);
 
+// The other composables take their signatures from composables.d.ts
+[
+  'useEnfyraPermissions',
+  'useEnfyraPaginated',
+  'useEnfyraResource',
+  'useEnfyraCache',
+  'useEnfyraRealtime',
+  'useEnfyraUpload',
+  'useEnfyraAsset',
+  'useEnfyraSession',
+].forEach((name) => {
+  fs.writeFileSync(
+    path.join(__dirname, `../dist/composables/${name}.d.ts`),
+    `export { ${name} } from '../composables';`
+  );
+});
+
 // Write constants/config.d.ts
 const configTypes = `/**
  * Hardcoded API prefix for all Enfyra SDK routes
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import { resolve } from "node:path";
+import {
+  SCHEMA_ENDPOINT,
+  fetchSchemaSnapshot,
+  writeSchemaSnapshot,
+} from "../utils/typegen";
+
+const USAGE = `Usage: enfyra-typegen [options]
+
+Fetch the Enfyra schema and write a snapshot used for offline type generation.
+
+Options:
+  --api-url <url>    Enfyra backend URL (default: $ENFYRA_API_URL)
+  --token <token>    Bearer token for the metadata request (default: $ENFYRA_TYPEGEN_TOKEN)
+  --out <file>       Snapshot file (default: enfyra.schema.json)
+  --endpoint <path>  Metadata endpoint (default: ${SCHEMA_ENDPOINT})
+  -h, --help         Show this message`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      args.help = "true";
+    } else if (arg.startsWith("--")) {
+      const [name, inline] = arg.slice(2).split("=", 2);
+      args[name] = inline ?? argv[++i] ?? "";
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const apiUrl = args["api-url"] || process.env.ENFYRA_API_URL;
+  if (!apiUrl) {
+    console.error(`[enfyra-typegen] --api-url is required\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const out = resolve(process.cwd(), args.out || "enfyra.schema.json");
+  const snapshot = await fetchSchemaSnapshot({
+    apiUrl,
+    token: args.token || process.env.ENFYRA_TYPEGEN_TOKEN,
+    endpoint: args.endpoint,
+  });
+  await writeSchemaSnapshot(out, snapshot);
+
+  console.log(
+    `[enfyra-typegen] Wrote ${snapshot.tables.length} tables to ${out}`
+  );
+}
+
+main().catch((error) => {
+  console.error(`[enfyra-typegen] ${error?.message || error}`);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { ref, unref, toRaw } from "vue";
+import { ref, unref, toRaw, computed, getCurrentScope, onScopeDispose } from "vue";
 import type {
   ApiOptions,
   ApiError,
@@ -6,33 +6,49 @@ import type {
   UseEnfyraApiSSRReturn,
   UseEnfyraApiClientReturn,
   BatchProgress,
+  BatchItemResult,
+  BatchResult,
+  EnfyraPath,
+  EnfyraPathTypes,
+  PaginatedResponse,
+  OptimisticChange,
 } from "../types";
 import { $fetch } from "../utils/http";
+import { withCsrfToken, isCsrfSafeMethod } from "../utils/csrf";
 import { getAppUrl } from "../utils/url";
+import { serializeQuery } from "../utils/query";
+import { resolveRetryOptions, withRetry } from "../utils/retry";
+import { $upload, canTrackUpload, getUploadSize } from "../utils/upload";
+import { toApiError, handleError } from "../utils/error";
+import {
+  getCacheEntry,
+  getCacheKey,
+  invalidateCache,
+  isFresh,
+  updateCacheData,
+  resolveCacheOptions,
+  revalidateEntry,
+  subscribeCacheEntry,
+} from "../utils/cache";
 import { ENFYRA_API_PREFIX } from "../constants/config";
+import { REPLAY_SAFE_HEADER } from "../constants/auth";
 
 import { useRuntimeConfig, useFetch, useRequestHeaders } from "#imports";
 
-function handleError(
-  error: any,
-  context?: string,
-  customHandler?: (error: ApiError, context?: string) => void
-) {
-  const apiError: ApiError = {
-    message: error?.message || error?.data?.message || "Request failed",
-    status: error?.status || error?.response?.status,
-    data: error?.data || error?.response?.data,
-    response: error?.response || error,
-  };
-
-  if (customHandler) {
-    customHandler(apiError, context);
-  } else {
-    console.error(`[Enfyra API Error]`, { error: apiError, context });
+// Paths known from the generated schema types infer their record type.
+// The second type parameter has no default, so calls with an explicit
+// `useEnfyraApi<T>(...)` skip these overloads and keep their own type.
+export function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+  path: P,
+  opts: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & { ssr: true }
+): UseEnfyraApiSSRReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
+
+export function useEnfyraApi<P extends EnfyraPath, _Inferred extends true>(
+  path: P,
+  opts?: ApiOptions<PaginatedResponse<EnfyraPathTypes[P]>> & {
+    ssr?: false | undefined;
   }
-
-  return apiError;
-}
+): UseEnfyraApiClientReturn<PaginatedResponse<EnfyraPathTypes[P]>>;
 
 export function useEnfyraApi<T = any>(
   path: (() => string) | string,
@@ -50,7 +66,7 @@ export function useEnfyraApi<T = any>(
 ): UseEnfyraApiSSRReturn<T> | UseEnfyraApiClientReturn<T> {
   const { method = "get", body, query, errorContext, onError, ssr, key } = opts;
   const batchOptions = opts as any;
-  const { batchSize, concurrent, onProgress } = batchOptions;
+  const { batchSize, concurrent, onProgress, continueOnError } = batchOptions;
 
   if (ssr) {
     const config = useRuntimeConfig().public.enfyraSDK;
@@ -58,9 +74,8 @@ export function useEnfyraApi<T = any>(
       .replace(/^\/?api\/?/, "")
       .replace(/^\/+/, "");
 
-    const appUrl = getAppUrl();
-    const finalUrl =
-      appUrl + (config?.apiPrefix || ENFYRA_API_PREFIX) + "/" + basePath;
+    // Relative, so Nitro serves it locally during SSR and the key matches on hydration
+    const finalUrl = (config?.apiPrefix || ENFYRA_API_PREFIX) + "/" + basePath;
 
     const clientHeaders = process.client
       ? {}
@@ -82,12 +97,29 @@ export function useEnfyraApi<T = any>(
     const fetchOptions: any = {
       method: method as any,
       body: body,
-      query: query,
+      query: computed(() => serializeQuery(query)),
       headers: {
         ...serverHeaders,
+        ...(opts.replaySafe ? { [REPLAY_SAFE_HEADER]: "1" } : {}),
         ...opts.headers,
       },
     };
+    if (!isCsrfSafeMethod(method)) {
+      fetchOptions.headers = withCsrfToken(fetchOptions.headers);
+    }
+
+    // ofetch's own retry uses a fixed delay, so retries go through withRetry
+    // for the same backoff, jitter, Retry-After and methods as the client
+    const retryOptions = resolveRetryOptions(config?.retry, opts.retry);
+    fetchOptions.retry = 0;
+    if (retryOptions) {
+      fetchOptions.$fetch = ((request: any, requestOptions?: any) =>
+        withRetry(() => globalThis.$fetch(request, requestOptions), {
+          method,
+          retry: retryOptions,
+          signal: requestOptions?.signal,
+        })) as typeof globalThis.$fetch;
+    }
 
     if (key) {
       fetchOptions.key = key;
@@ -95,17 +127,49 @@ export function useEnfyraApi<T = any>(
     if (opts.default) {
       fetchOptions.default = opts.default;
     }
+    if (opts.watch !== undefined) {
+      fetchOptions.watch = opts.watch;
+    }
 
     return useFetch<T>(finalUrl, fetchOptions) as UseEnfyraApiSSRReturn<T>;
   }
   const data = ref<T | null>(null);
   const error = ref<ApiError | null>(null);
   const pending = ref(false);
+  let activeController: AbortController | null = null;
+  let unsubscribeCache: (() => void) | null = null;
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => unsubscribeCache?.());
+  }
+
+  // Forward the incoming session when execute() runs during SSR (e.g. in route middleware)
+  const requestHeaders = {
+    ...(process.server ? useRequestHeaders(["cookie", "authorization"]) : {}),
+    ...opts.headers,
+  } as Record<string, string>;
+
+  const abort = () => {
+    activeController?.abort();
+  };
 
   const execute = async (executeOpts?: ExecuteOptions) => {
     pending.value = true;
     error.value = null;
 
+    const controller = new AbortController();
+    activeController = controller;
+    const signal = controller.signal;
+    const onExternalAbort = () => controller.abort();
+    executeOpts?.signal?.addEventListener("abort", onExternalAbort);
+    if (executeOpts?.signal?.aborted) {
+      controller.abort();
+    }
+
+    let batchOutcomes: BatchItemResult<any>[] | null = null;
+    // Keeps the optimistic update of completed batch items, null rolls it all back
+    let settleOptimistic = (_outcomes: BatchItemResult<any>[] | null) => {};
+
     try {
       const config: any = useRuntimeConfig().public.enfyraSDK;
       const apiUrl = getAppUrl();
@@ -115,6 +179,11 @@ export function useEnfyraApi<T = any>(
         .replace(/^\/+/, "");
       const finalBody = executeOpts?.body || unref(body);
       const finalQuery = executeOpts?.query || unref(query);
+      const replaySafe = executeOpts?.replaySafe ?? opts.replaySafe;
+      const postItems: (FormData | Record<string, any>)[] | undefined =
+        executeOpts?.files && executeOpts.files.length > 0
+          ? executeOpts.files
+          : executeOpts?.bodies;
 
       const isBatchOperation =
         !opts.disableBatch &&
@@ -123,9 +192,8 @@ export function useEnfyraApi<T = any>(
           (method.toLowerCase() === "patch" ||
             method.toLowerCase() === "delete")) ||
           (method.toLowerCase() === "post" &&
-            executeOpts?.files &&
-            Array.isArray(executeOpts.files) &&
-            executeOpts.files.length > 0));
+            Array.isArray(postItems) &&
+            postItems.length > 0));
 
       const effectiveBatchSize = isBatchOperation
         ? executeOpts?.batchSize ?? batchSize
@@ -136,6 +204,25 @@ export function useEnfyraApi<T = any>(
       const effectiveOnProgress = isBatchOperation
         ? executeOpts?.onProgress ?? onProgress
         : undefined;
+      const effectiveContinueOnError = isBatchOperation
+        ? executeOpts?.continueOnError ?? continueOnError ?? false
+        : false;
+      const effectiveRetry = resolveRetryOptions(
+        config?.retry,
+        opts.retry,
+        executeOpts?.retry
+      );
+
+      const request = <R>(
+        send: () => Promise<R>,
+        onRetry?: (attempt: number) => void
+      ) =>
+        withRetry(send, {
+          method,
+          retry: effectiveRetry,
+          signal,
+          onRetry,
+        });
 
       const buildPath = (...segments: (string | number)[]): string => {
         return segments.filter(Boolean).join("/");
@@ -143,31 +230,89 @@ export function useEnfyraApi<T = any>(
 
       const fullBaseURL = apiUrl + (apiPrefix || ENFYRA_API_PREFIX);
 
+      // A successful mutation makes cached reads of the same table stale
+      const invalidateAfterMutation = () => {
+        if (method.toLowerCase() === "get" || opts.invalidates === false) {
+          return;
+        }
+        void invalidateCache({
+          tags: opts.invalidates?.tags,
+          paths: [basePath, ...(opts.invalidates?.paths || [])],
+        });
+      };
+
+      const optimistic = executeOpts?.optimistic;
+      if (optimistic) {
+        const isIdsBatch = isBatchOperation && !!executeOpts?.ids?.length;
+        const applyOptimistic = (change: OptimisticChange) =>
+          updateCacheData(optimistic.target ?? { paths: [basePath] }, (value) =>
+            optimistic.update(value, change)
+          );
+
+        let rollback: (() => void) | null = applyOptimistic({
+          id: executeOpts?.id,
+          ids: isIdsBatch ? executeOpts?.ids : undefined,
+          body: finalBody,
+          bodies: isBatchOperation && !isIdsBatch ? postItems : undefined,
+        });
+
+        settleOptimistic = (outcomes) => {
+          if (!rollback) return;
+          const completed = (outcomes || []).filter(
+            (outcome) => outcome.status === "completed"
+          );
+          if (outcomes && completed.length === outcomes.length) {
+            rollback = null;
+            return;
+          }
+
+          rollback();
+          rollback = null;
+          if (completed.length > 0) {
+            const items = completed.map((outcome) => outcome.item);
+            applyOptimistic(
+              isIdsBatch
+                ? { ids: items as (string | number)[], body: finalBody }
+                : { bodies: items as (Record<string, any> | FormData)[] }
+            );
+          }
+        };
+      }
+
       async function processBatch<T>(
-        items: any[],
-        processor: (item: any, index: number) => Promise<T>
-      ): Promise<T[]> {
-        const results: T[] = [];
+        items: BatchItemResult["item"][],
+        processor: (
+          item: any,
+          index: number,
+          onRetry: () => void,
+          onBytes: (loaded: number) => void
+        ) => Promise<T>
+      ): Promise<BatchItemResult<T>[]> {
+        const outcomes: BatchItemResult<T>[] = items.map((item, index) => ({
+          index,
+          item,
+          status: "cancelled",
+        }));
+        batchOutcomes = outcomes;
         const progressResults: BatchProgress["results"] = [];
         const startTime = Date.now();
         let completed = 0;
         let failed = 0;
+        let inProgress = 0;
+        let retries = 0;
+        const fileSizes = items.map((item) =>
+          item instanceof FormData || item instanceof Blob
+            ? getUploadSize(item)
+            : 0
+        );
+        const loadedBytes = items.map(() => 0);
+        const totalBytes = fileSizes.reduce((sum, size) => sum + size, 0);
 
-        const chunks = effectiveBatchSize
-          ? Array.from(
-              { length: Math.ceil(items.length / effectiveBatchSize) },
-              (_, i) =>
-                items.slice(
-                  i * effectiveBatchSize,
-                  i * effectiveBatchSize + effectiveBatchSize
-                )
-            )
-          : [items];
-
-        const totalBatches = chunks.length;
+        const chunkSize = effectiveBatchSize || items.length;
+        const totalBatches = Math.ceil(items.length / chunkSize);
         let currentBatch = 0;
 
-        const updateProgress = (inProgress: number = 0) => {
+        const updateProgress = () => {
           if (effectiveOnProgress) {
             const elapsed = Date.now() - startTime;
             const progress =
@@ -187,7 +332,12 @@ export function useEnfyraApi<T = any>(
               completed,
               total: items.length,
               failed,
+              cancelled: signal.aborted
+                ? outcomes.filter((o) => o.status === "cancelled").length -
+                  inProgress
+                : 0,
               inProgress,
+              retries,
               estimatedTimeRemaining,
               averageTime,
               currentBatch: currentBatch + 1,
@@ -195,222 +345,307 @@ export function useEnfyraApi<T = any>(
               operationsPerSecond,
               results: [...progressResults],
             };
+            if (totalBytes > 0) {
+              progressData.bytes = {
+                loaded: loadedBytes.reduce((sum, loaded) => sum + loaded, 0),
+                total: totalBytes,
+                files: fileSizes.map((size, i) => ({
+                  loaded: loadedBytes[i],
+                  total: size,
+                })),
+              };
+            }
 
             effectiveOnProgress(progressData);
           }
         };
 
-        updateProgress(0);
-
-        if (!effectiveBatchSize && !effectiveConcurrent) {
-          updateProgress(items.length);
-
-          const promises = items.map(async (item, index) => {
-            const itemStartTime = Date.now();
-            try {
-              const result = await processor(item, index);
-              const duration = Date.now() - itemStartTime;
-
-              completed++;
-              progressResults.push({
-                index,
-                status: "completed",
-                result,
-                duration,
-              });
-              updateProgress(items.length - completed);
-
-              return result;
-            } catch (error) {
-              const duration = Date.now() - itemStartTime;
-              failed++;
-              completed++;
-
-              progressResults.push({
-                index,
-                status: "failed",
-                error: error as ApiError,
-                duration,
-              });
-              updateProgress(items.length - completed);
-
-              throw error;
+        const runItem = async (index: number) => {
+          const itemStartTime = Date.now();
+          let itemRetries = 0;
+          inProgress++;
+
+          const onRetry = () => {
+            itemRetries++;
+            retries++;
+            loadedBytes[index] = 0;
+            updateProgress();
+          };
+          const onBytes = (loaded: number) => {
+            loadedBytes[index] = loaded;
+            updateProgress();
+          };
+
+          try {
+            const result = await processor(
+              items[index],
+              index,
+              onRetry,
+              onBytes
+            );
+            loadedBytes[index] = fileSizes[index];
+            const duration = Date.now() - itemStartTime;
+
+            completed++;
+            outcomes[index] = {
+              ...outcomes[index],
+              status: "completed",
+              result,
+              retries: itemRetries,
+            };
+            progressResults.push({
+              index,
+              status: "completed",
+              result,
+              duration,
+              retries: itemRetries,
+            });
+          } catch (err) {
+            if (signal.aborted) {
+              // Cancelled by abort(), not a failure of the item itself
+              return;
             }
-          });
 
-          const results = await Promise.all(promises);
-          updateProgress(0);
-          return results;
-        }
+            const duration = Date.now() - itemStartTime;
+            const itemError = toApiError(err);
+            failed++;
+            completed++;
 
-        for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-          currentBatch = chunkIndex;
-          const chunk = chunks[chunkIndex];
-
-          if (effectiveConcurrent && chunk.length > effectiveConcurrent) {
-            for (let i = 0; i < chunk.length; i += effectiveConcurrent) {
-              const batch = chunk.slice(i, i + effectiveConcurrent);
-              const baseIndex =
-                chunkIndex * (effectiveBatchSize || items.length) + i;
-
-              updateProgress(batch.length);
-
-              const batchPromises = batch.map(async (item, batchItemIndex) => {
-                const globalIndex = baseIndex + batchItemIndex;
-                const itemStartTime = Date.now();
-
-                try {
-                  const result = await processor(item, globalIndex);
-                  const duration = Date.now() - itemStartTime;
-
-                  completed++;
-                  progressResults.push({
-                    index: globalIndex,
-                    status: "completed",
-                    result,
-                    duration,
-                  });
-                  updateProgress(
-                    Math.max(0, batch.length - (batchItemIndex + 1))
-                  );
-
-                  return result;
-                } catch (error) {
-                  const duration = Date.now() - itemStartTime;
-                  failed++;
-                  completed++;
-
-                  progressResults.push({
-                    index: globalIndex,
-                    status: "failed",
-                    error: error as ApiError,
-                    duration,
-                  });
-                  updateProgress(
-                    Math.max(0, batch.length - (batchItemIndex + 1))
-                  );
-
-                  throw error;
-                }
-              });
-
-              const batchResults = await Promise.all(batchPromises);
-              results.push(...batchResults);
-            }
-          } else {
-            const baseIndex = chunkIndex * (effectiveBatchSize || items.length);
-
-            updateProgress(chunk.length);
-
-            const chunkPromises = chunk.map(async (item, chunkItemIndex) => {
-              const globalIndex = baseIndex + chunkItemIndex;
-              const itemStartTime = Date.now();
-
-              try {
-                const result = await processor(item, globalIndex);
-                const duration = Date.now() - itemStartTime;
-
-                completed++;
-                progressResults.push({
-                  index: globalIndex,
-                  status: "completed",
-                  result,
-                  duration,
-                });
-                updateProgress(
-                  Math.max(0, chunk.length - (chunkItemIndex + 1))
-                );
-
-                return result;
-              } catch (error) {
-                const duration = Date.now() - itemStartTime;
-                failed++;
-                completed++;
-
-                progressResults.push({
-                  index: globalIndex,
-                  status: "failed",
-                  error: error as ApiError,
-                  duration,
-                });
-                updateProgress(
-                  Math.max(0, chunk.length - (chunkItemIndex + 1))
-                );
-
-                throw error;
-              }
+            outcomes[index] = {
+              ...outcomes[index],
+              status: "failed",
+              error: itemError,
+              retries: itemRetries,
+            };
+            progressResults.push({
+              index,
+              status: "failed",
+              error: itemError,
+              duration,
+              retries: itemRetries,
             });
 
-            const chunkResults = await Promise.all(chunkPromises);
-            results.push(...chunkResults);
+            if (!effectiveContinueOnError) {
+              throw err;
+            }
+          } finally {
+            inProgress--;
+            updateProgress();
+          }
+        };
+
+        updateProgress();
+
+        for (
+          let chunkStart = 0;
+          chunkStart < items.length && !signal.aborted;
+          chunkStart += chunkSize
+        ) {
+          currentBatch = chunkStart / chunkSize;
+          const chunkEnd = Math.min(chunkStart + chunkSize, items.length);
+          const groupSize = effectiveConcurrent || chunkEnd - chunkStart;
+
+          for (
+            let groupStart = chunkStart;
+            groupStart < chunkEnd && !signal.aborted;
+            groupStart += groupSize
+          ) {
+            const groupEnd = Math.min(groupStart + groupSize, chunkEnd);
+            const indexes = Array.from(
+              { length: groupEnd - groupStart },
+              (_, i) => groupStart + i
+            );
+
+            // The group settles before a failure ends the batch, so requests
+            // still in flight report what the server really did
+            const settled = await Promise.allSettled(indexes.map(runItem));
+            const failure = settled.find(
+              (result): result is PromiseRejectedResult =>
+                result.status === "rejected"
+            );
+            if (failure) {
+              throw failure.reason;
+            }
           }
         }
 
-        updateProgress(0);
-        return results;
+        updateProgress();
+        return outcomes;
       }
 
+      const finishBatch = (outcomes: BatchItemResult<T>[]) => {
+        settleOptimistic(outcomes);
+        const succeeded = outcomes.filter((o) => o.status === "completed");
+        const results = succeeded.map((o) => o.result as T);
+
+        if (!effectiveContinueOnError) {
+          if (signal.aborted) {
+            throw new Error("Batch operation aborted");
+          }
+          data.value = results as T;
+          invalidateAfterMutation();
+          return results;
+        }
+
+        const summary: BatchResult<T> = {
+          items: outcomes,
+          succeeded: succeeded.length,
+          failed: outcomes.filter((o) => o.status === "failed").length,
+          cancelled: outcomes.filter((o) => o.status === "cancelled").length,
+          aborted: signal.aborted,
+        };
+
+        data.value = results as T;
+        if (summary.succeeded > 0) {
+          invalidateAfterMutation();
+        }
+        if (summary.failed > 0 || summary.aborted) {
+          error.value = handleError(
+            {
+              message: summary.aborted
+                ? `Batch aborted: ${summary.succeeded} of ${outcomes.length} operations completed`
+                : `${summary.failed} of ${outcomes.length} batch operations failed`,
+              data: summary,
+            },
+            errorContext,
+            onError
+          );
+        }
+
+        return summary;
+      };
+
       if (isBatchOperation && executeOpts?.ids && executeOpts.ids.length > 0) {
-        const responses = await processBatch(
+        const outcomes = await processBatch(
           executeOpts.ids,
-          async (id) => {
+          async (id, _index, onRetry) => {
             const finalPath = buildPath(basePath, id);
-            return $fetch<T>(finalPath, {
-              baseURL: fullBaseURL,
-              method: method as any,
-              body: finalBody ? toRaw(finalBody) : undefined,
-              headers: opts.headers,
-              query: finalQuery,
-            });
+            return request(
+              () =>
+                $fetch<T>(finalPath, {
+                  baseURL: fullBaseURL,
+                  method: method as any,
+                  body: finalBody ? toRaw(finalBody) : undefined,
+                  headers: requestHeaders,
+                  query: finalQuery,
+                  replaySafe,
+                  signal,
+                }),
+              onRetry
+            );
           }
         );
 
-        data.value = responses as T;
-        return responses;
+        return finishBatch(outcomes);
       }
 
-      if (
-        isBatchOperation &&
-        executeOpts?.files &&
-        Array.isArray(executeOpts.files) &&
-        executeOpts.files.length > 0
-      ) {
-        const responses = await processBatch(
-          executeOpts.files,
-          async (fileObj: any) => {
-            return $fetch<T>(basePath, {
-              baseURL: fullBaseURL,
-              method: method as any,
-              body: fileObj,
-              headers: opts.headers,
-              query: finalQuery,
-            });
+      if (isBatchOperation && Array.isArray(postItems) && postItems.length > 0) {
+        const outcomes = await processBatch(
+          postItems,
+          async (item: any, _index, onRetry, onBytes) => {
+            // Files go through XMLHttpRequest for byte-level progress
+            if (item instanceof FormData && canTrackUpload()) {
+              return request(
+                () =>
+                  $upload<T>(basePath, item, {
+                    baseURL: fullBaseURL,
+                    method,
+                    headers: requestHeaders,
+                    query: finalQuery,
+                    replaySafe,
+                    signal,
+                    onProgress: effectiveOnProgress ? onBytes : undefined,
+                  }),
+                onRetry
+              );
+            }
+
+            return request(
+              () =>
+                $fetch<T>(basePath, {
+                  baseURL: fullBaseURL,
+                  method: method as any,
+                  body: item instanceof FormData ? item : toRaw(item),
+                  headers: requestHeaders,
+                  query: finalQuery,
+                  replaySafe,
+                  signal,
+                }),
+              onRetry
+            );
           }
         );
 
-        data.value = responses as T;
-        return responses;
+        return finishBatch(outcomes);
       }
 
       const finalPath = executeOpts?.id
         ? buildPath(basePath, executeOpts.id)
         : basePath;
 
-      const response = await $fetch<T>(finalPath, {
-        baseURL: fullBaseURL,
-        method: method as any,
-        body: finalBody ? toRaw(finalBody) : undefined,
-        headers: opts.headers,
-        query: finalQuery,
-      });
+      const send = (requestSignal?: AbortSignal) =>
+        withRetry(
+          () =>
+            $fetch<T>(finalPath, {
+              baseURL: fullBaseURL,
+              method: method as any,
+              body: finalBody ? toRaw(finalBody) : undefined,
+              headers: requestHeaders,
+              query: finalQuery,
+              replaySafe,
+              signal: requestSignal,
+              dedupe: executeOpts?.dedupe ?? opts.dedupe,
+            }),
+          { method, retry: effectiveRetry, signal: requestSignal }
+        );
+
+      // The shared cache lives in the browser only, server requests are never shared
+      const cacheOptions =
+        process.client && method.toLowerCase() === "get"
+          ? resolveCacheOptions(opts.cache)
+          : null;
+
+      if (cacheOptions) {
+        const cacheKey = getCacheKey(finalPath, finalQuery);
+        const entry = getCacheEntry(cacheKey, finalPath, cacheOptions);
+        // Background revalidation outlives this execution, so it is not abortable
+        entry.fetcher = () => send();
+
+        unsubscribeCache?.();
+        unsubscribeCache = subscribeCacheEntry(cacheKey, entry, (value) => {
+          data.value = value;
+        });
+
+        if (entry.data !== undefined && !executeOpts?.force) {
+          if (!isFresh(entry)) {
+            revalidateEntry(entry).catch((err) => {
+              error.value = handleError(err, errorContext, onError);
+            });
+          }
+          data.value = entry.data;
+          return entry.data as T;
+        }
+
+        const response: T = await revalidateEntry(entry, () => send(signal));
+        data.value = response;
+        return response;
+      }
+
+      const response = await send(signal);
 
       data.value = response;
+      invalidateAfterMutation();
       return response;
     } catch (err) {
+      settleOptimistic(batchOutcomes);
       const apiError = handleError(err, errorContext, onError);
       error.value = apiError;
       return null;
     } finally {
+      executeOpts?.signal?.removeEventListener("abort", onExternalAbort);
+      if (activeController === controller) {
+        activeController = null;
+      }
       pending.value = false;
     }
   };
@@ -420,5 +655,6 @@ export function useEnfyraApi<T = any>(
     error,
     pending,
     execute,
+    abort,
   } as UseEnfyraApiClientReturn<T>;
 }
@@ -0,0 +1,9 @@
+import type { UseEnfyraAssetReturn } from "../types";
+import { getAssetUrl, getAssetSrcset } from "../utils/asset";
+
+export function useEnfyraAsset(): UseEnfyraAssetReturn {
+  return {
+    url: getAssetUrl,
+    srcset: getAssetSrcset,
+  };
+}
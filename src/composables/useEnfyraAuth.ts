@@ -1,11 +1,38 @@
-import { ref, computed } from "vue";
-import type { LoginPayload, User, UseEnfyraAuthReturn } from "../types/auth";
+import { computed } from "vue";
+import type {
+  LoginPayload,
+  LoginWithOptions,
+  User,
+  UseEnfyraAuthReturn,
+} from "../types/auth";
 import { useEnfyraApi } from "./useEnfyraApi";
-
-const me = ref<User | null>(null);
-const isLoading = ref<boolean>(false);
+import { clearCache } from "../utils/cache";
+import { callAuthHook } from "../utils/hooks";
+import { isLocalPath } from "../utils/redirect";
+import {
+  AUTH_HOOKS,
+  USER_STATE_KEY,
+  AUTH_LOADING_STATE_KEY,
+} from "../constants/auth";
+import { ENFYRA_API_PREFIX } from "../constants/config";
+import { OAUTH_ROUTE } from "../constants/oauth";
+import { useState, useRuntimeConfig, useRouter, navigateTo } from "#imports";
+
+/**
+ * `?redirect=` target set by the `enfyra` middleware, limited to local paths
+ */
+function getRedirectQuery(): string | undefined {
+  const redirect = useRouter().currentRoute.value.query.redirect;
+  return isLocalPath(redirect) ? redirect : undefined;
+}
 
 export function useEnfyraAuth() {
+  // useState keeps one user per SSR request and hydrates it on the client
+  const me = useState<User | null>(USER_STATE_KEY, () => null);
+  const isLoading = useState<boolean>(AUTH_LOADING_STATE_KEY, () => false);
+  const config = useRuntimeConfig().public?.enfyraSDK;
+  const redirects = config?.redirects;
+
   const {
     data: loginData,
     execute: executeLogin,
@@ -63,36 +90,62 @@ export function useEnfyraAuth() {
         return null;
       }
 
+      // Cached responses belong to the previous session
+      clearCache();
+      await callAuthHook(AUTH_HOOKS.login, { response: loginData.value });
+
+      if (redirects?.afterLogin) {
+        await navigateTo(getRedirectQuery() || redirects.afterLogin);
+      }
+
       return loginData.value;
     } finally {
       isLoading.value = false;
     }
   };
 
+  /**
+   * Log in at an external provider. The browser leaves the app and comes
+   * back through the SDK callback route with the auth cookies set.
+   */
+  const loginWith = async (provider: string, options: LoginWithOptions = {}) => {
+    const query = new URLSearchParams();
+    const redirect = options.redirect ?? getRedirectQuery();
+    if (redirect) query.set("redirect", redirect);
+    if (options.remember) query.set("remember", "1");
+
+    const apiPrefix = config?.apiPrefix || ENFYRA_API_PREFIX;
+    const search = query.toString();
+    await navigateTo(
+      `${apiPrefix}${OAUTH_ROUTE}/${encodeURIComponent(provider)}${search ? `?${search}` : ""}`,
+      { external: true }
+    );
+  };
+
   const logout = async () => {
     isLoading.value = true;
 
     try {
       await executeLogout();
-      me.value = null;
-
-      if (typeof window !== "undefined") {
-        window.location.reload();
-      }
-    } catch (error) {
-      me.value = null;
-      if (typeof window !== "undefined") {
-        window.location.reload();
-      }
     } finally {
+      // The session is gone locally even when the backend call failed
+      me.value = null;
+      clearCache();
       isLoading.value = false;
     }
+
+    await callAuthHook(AUTH_HOOKS.logout);
+
+    if (redirects?.afterLogout) {
+      await navigateTo(redirects.afterLogout);
+    }
   };
 
   const isLoggedIn = computed(() => !!me.value);
   return {
     me,
     login,
+    loginWith,
     logout,
     fetchUser,
     isLoggedIn,
@@ -0,0 +1,10 @@
+import type { UseEnfyraCacheReturn } from "../types";
+import { clearCache, invalidateCache, updateCacheData } from "../utils/cache";
+
+export function useEnfyraCache(): UseEnfyraCacheReturn {
+  return {
+    invalidate: invalidateCache,
+    update: updateCacheData,
+    clear: clearCache,
+  };
+}
@@ -0,0 +1,208 @@
+import { ref, computed, watch } from "vue";
+import type {
+  PaginatedOptions,
+  PaginatedResponse,
+  UseEnfyraPaginatedReturn,
+} from "../types";
+import { useEnfyraApi } from "./useEnfyraApi";
+import { resolveQuery, serializeQuery } from "../utils/query";
+
+const COUNT_META = ["totalCount", "filterCount"];
+
+export function useEnfyraPaginated<T = any>(
+  path: (() => string) | string,
+  opts: PaginatedOptions = {}
+): UseEnfyraPaginatedReturn<T> {
+  const { ssr, key, immediate = true } = opts;
+
+  const page = ref(opts.initialPage ?? 1);
+  const limit = ref(opts.limit ?? 20);
+  const items = ref<T[]>([]) as UseEnfyraPaginatedReturn<T>["items"];
+  const meta = ref<PaginatedResponse<T>["meta"]>();
+  // Set by loadMore for the load its page change triggers
+  let appending = false;
+  // Whether items hold several pages appended by loadMore
+  let appended = false;
+
+  const query = computed(() => {
+    const base = resolveQuery(opts.query);
+    const baseMeta = base.meta
+      ? Array.isArray(base.meta)
+        ? base.meta
+        : [base.meta]
+      : [];
+
+    return {
+      ...base,
+      page: page.value,
+      limit: limit.value,
+      meta: [...new Set([...baseMeta, ...COUNT_META])],
+    };
+  });
+
+  const apiOptions = {
+    query,
+    headers: opts.headers,
+    errorContext: opts.errorContext,
+    onError: opts.onError,
+    retry: opts.retry,
+  };
+
+  const api = ssr
+    ? useEnfyraApi<PaginatedResponse<T>>(path, {
+        ...apiOptions,
+        ssr: true,
+        key,
+        // Page changes are loaded explicitly below
+        watch: false,
+      })
+    : useEnfyraApi<PaginatedResponse<T>>(path, apiOptions);
+
+  const apply = (
+    response: PaginatedResponse<T> | null | undefined,
+    append: boolean
+  ) => {
+    const rows = response?.data || [];
+    items.value = append ? [...items.value, ...rows] : rows;
+    meta.value = response?.meta;
+    appended = append;
+  };
+
+  let current: Promise<boolean> = Promise.resolve(true);
+  let latest = 0;
+  let inFlight = 0;
+  // Set while loadMore steps back from a failed page
+  let restoring = false;
+
+  /**
+   * Load the current page. Resolves to whether a response arrived.
+   */
+  const load = async (): Promise<boolean> => {
+    const id = ++latest;
+    const append = appending;
+    inFlight++;
+    try {
+      if ("refresh" in api) {
+        await api.refresh();
+        return !api.error.value;
+      }
+
+      const response = (await api.execute()) as PaginatedResponse<T> | null;
+      // Drop the response of a load superseded by a newer page change
+      if (id === latest && response) {
+        apply(response, append);
+      }
+      return !!response;
+    } finally {
+      inFlight--;
+      if (id === latest) {
+        appending = false;
+      }
+    }
+  };
+
+  watch(
+    api.data,
+    (response) => {
+      if ("refresh" in api) {
+        // useFetch cancels superseded refreshes, so this is the latest page
+        apply(response, appending);
+      } else if (!inFlight && !appended) {
+        // Background cache revalidation of the current page
+        apply(response, false);
+      }
+    },
+    { immediate: true, flush: "sync" }
+  );
+
+  // Synchronous so navigation helpers can await the load they trigger
+  watch(
+    [page, limit],
+    () => {
+      if (!restoring) {
+        current = load();
+      }
+    },
+    { flush: "sync" }
+  );
+
+  watch(
+    () => JSON.stringify(serializeQuery(opts.query)),
+    () => {
+      appending = false;
+      if (page.value !== 1) {
+        page.value = 1;
+      } else {
+        current = load();
+      }
+    }
+  );
+
+  const total = computed(
+    () => meta.value?.filterCount ?? meta.value?.totalCount ?? 0
+  );
+  const pageCount = computed(() => Math.ceil(total.value / limit.value));
+  const hasNext = computed(() => page.value < pageCount.value);
+  const hasPrev = computed(() => page.value > 1);
+
+  const goTo = async (target: number) => {
+    const clamped = Math.max(1, Math.min(target, pageCount.value || 1));
+    appending = false;
+    if (clamped !== page.value) {
+      page.value = clamped;
+      await current;
+    }
+  };
+
+  const next = () => goTo(page.value + 1);
+  const prev = () => goTo(page.value - 1);
+
+  const loadMore = async () => {
+    if (!hasNext.value || api.pending.value) {
+      return;
+    }
+    const previous = page.value;
+    appending = true;
+    page.value++;
+
+    const loading = current;
+    let loaded = false;
+    try {
+      loaded = await loading;
+    } finally {
+      // Step back without loading, so the next loadMore asks for the failed page again
+      if (!loaded && loading === current) {
+        restoring = true;
+        page.value = previous;
+        restoring = false;
+      }
+    }
+  };
+
+  const refresh = async () => {
+    appending = false;
+    current = load();
+    await current;
+  };
+
+  if (!ssr && immediate && process.client) {
+    current = load();
+  }
+
+  return {
+    items,
+    page,
+    limit,
+    total,
+    pageCount,
+    hasNext,
+    hasPrev,
+    pending: api.pending,
+    error: api.error,
+    next,
+    prev,
+    goTo,
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,31 @@
+import { computed } from "vue";
+import type {
+  RouteRequirement,
+  UseEnfyraPermissionsReturn,
+} from "../types/auth";
+import { useEnfyraAuth } from "./useEnfyraAuth";
+import {
+  getUserPermissions,
+  hasRoutePermission,
+  meetsRequirements,
+} from "../utils/permissions";
+
+export function useEnfyraPermissions(): UseEnfyraPermissionsReturn {
+  const { me } = useEnfyraAuth();
+
+  const permissions = computed(() => getUserPermissions(me.value));
+  const isRootAdmin = computed(() => !!me.value?.isRootAdmin);
+
+  const can = (path: string, method: string = "GET") =>
+    hasRoutePermission(me.value, path, method);
+
+  const canAll = (requirements: RouteRequirement | RouteRequirement[]) =>
+    meetsRequirements(me.value, requirements);
+
+  return {
+    permissions,
+    isRootAdmin,
+    can,
+    canAll,
+  };
+}
@@ -0,0 +1,249 @@
+import { ref, unref, watch, getCurrentScope, onScopeDispose } from "vue";
+import type {
+  ApiError,
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeOptions,
+  RealtimeReconnectOptions,
+  UseEnfyraRealtimeReturn,
+} from "../types";
+import { getAppUrl } from "../utils/url";
+import { refreshSession } from "../utils/http";
+import { callAuthHook } from "../utils/hooks";
+import { readEventStream, type ServerSentEvent } from "../utils/sse";
+import { ENFYRA_API_PREFIX } from "../constants/config";
+import { REALTIME_ROUTE } from "../constants/realtime";
+import { AUTH_HOOKS } from "../constants/auth";
+import { useRuntimeConfig } from "#imports";
+
+const EVENT_TYPES: RealtimeEventType[] = ["create", "update", "delete"];
+
+const DEFAULT_RECONNECT: Required<RealtimeReconnectOptions> = {
+  delay: 1000,
+  maxDelay: 30_000,
+  attempts: Infinity,
+};
+
+/**
+ * Apply a record change to an array of records or a `{ data: [...] }` response
+ */
+function patchRecords(value: any, event: RealtimeEvent, primaryKey: string) {
+  const records: any[] | null = Array.isArray(value)
+    ? value
+    : Array.isArray(value?.data)
+    ? value.data
+    : null;
+  if (!records) return value;
+
+  const id = event.id ?? (event.data as any)?.[primaryKey];
+  const isTarget = (record: any) =>
+    id !== undefined && String(record?.[primaryKey]) === String(id);
+
+  let next = records;
+  if (event.type === "delete") {
+    next = records.filter((record) => !isTarget(record));
+  } else if (records.some(isTarget)) {
+    next = records.map((record) =>
+      isTarget(record) ? { ...record, ...event.data } : record
+    );
+  } else if (event.type === "create" && event.data) {
+    next = [...records, event.data];
+  }
+
+  return Array.isArray(value) ? next : { ...value, data: next };
+}
+
+export function useEnfyraRealtime<T = any>(
+  path: (() => string) | string,
+  opts: RealtimeOptions<T> = {}
+): UseEnfyraRealtimeReturn<T> {
+  const { primaryKey = "id", immediate = true } = opts;
+  const reconnect =
+    opts.reconnect === false
+      ? null
+      : { ...DEFAULT_RECONNECT, ...opts.reconnect };
+  const syncRefs = opts.sync
+    ? Array.isArray(opts.sync)
+      ? opts.sync
+      : [opts.sync]
+    : [];
+
+  const config = useRuntimeConfig().public.enfyraSDK;
+  const baseURL = getAppUrl() + (config?.apiPrefix || ENFYRA_API_PREFIX);
+
+  const status = ref<UseEnfyraRealtimeReturn<T>["status"]["value"]>("idle");
+  const lastEvent = ref<RealtimeEvent<T> | null>(null) as UseEnfyraRealtimeReturn<T>["lastEvent"];
+  const error = ref<ApiError | null>(null);
+
+  let controller: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+
+  const resolvePath = () =>
+    "/" +
+    (typeof path === "function" ? path() : path)
+      .replace(/^\/?api\/?/, "")
+      .replace(/^\/+/, "");
+
+  const buildUrl = () => {
+    const url = new URL(`${baseURL}${REALTIME_ROUTE}`);
+    url.searchParams.set("path", resolvePath());
+    const filter = unref(opts.filter);
+    if (filter) {
+      url.searchParams.set("filter", JSON.stringify(filter));
+    }
+    return url.toString();
+  };
+
+  const fail = (apiError: ApiError) => {
+    error.value = apiError;
+    if (opts.onError) {
+      opts.onError(apiError);
+    } else {
+      console.error(`[Enfyra Realtime Error]`, { error: apiError, path: resolvePath() });
+    }
+  };
+
+  const handleMessage = (message: ServerSentEvent) => {
+    let payload: any;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      return;
+    }
+
+    const type = payload?.type ?? message.event;
+    if (!EVENT_TYPES.includes(type) || (opts.events && !opts.events.includes(type))) {
+      return;
+    }
+
+    const event = { ...payload, type } as RealtimeEvent<T>;
+    lastEvent.value = event;
+    syncRefs.forEach((target) => {
+      target.value = patchRecords(target.value, event, primaryKey);
+    });
+    opts.onEvent?.(event);
+  };
+
+  const scheduleReconnect = () => {
+    if (!reconnect || attempt >= reconnect.attempts) {
+      status.value = "closed";
+      return;
+    }
+
+    const backoff = Math.min(
+      reconnect.maxDelay,
+      reconnect.delay * Math.pow(2, attempt)
+    );
+    attempt++;
+    status.value = "connecting";
+    reconnectTimer = setTimeout(
+      () => open(),
+      Math.round(backoff / 2 + (Math.random() * backoff) / 2)
+    );
+  };
+
+  async function open(afterRefresh = false): Promise<void> {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+    status.value = "connecting";
+
+    try {
+      const response = await fetch(buildUrl(), {
+        headers: { accept: "text/event-stream" },
+        credentials: "same-origin",
+        signal: current.signal,
+      });
+
+      if (response.status === 401) {
+        // Refresh once; a second 401 means the session is gone
+        if (!afterRefresh && (await refreshSession(`${baseURL}/`))) {
+          return open(true);
+        }
+        void callAuthHook(AUTH_HOOKS.unauthorized, {
+          url: response.url,
+          method: "GET",
+        });
+        fail({
+          message: "Unauthorized",
+          status: 401,
+          data: { code: "UNAUTHORIZED" },
+        });
+        status.value = "closed";
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        throw {
+          message: `Realtime connection failed (${response.status})`,
+          status: response.status,
+        };
+      }
+
+      status.value = "open";
+      error.value = null;
+      attempt = 0;
+
+      for await (const message of readEventStream(response.body)) {
+        if (message.event === "reauth") {
+          // The server ends the stream shortly before the access token expires
+          await refreshSession(`${baseURL}/`);
+          return open();
+        }
+        handleMessage(message);
+      }
+    } catch (err: any) {
+      if (current.signal.aborted) return;
+      fail({
+        message: err?.message || "Realtime connection failed",
+        status: err?.status,
+        response: err,
+      });
+    }
+
+    if (controller === current) {
+      scheduleReconnect();
+    }
+  }
+
+  const connect = () => {
+    clearTimeout(reconnectTimer);
+    attempt = 0;
+    if (process.client) {
+      open();
+    }
+  };
+
+  const disconnect = () => {
+    clearTimeout(reconnectTimer);
+    controller?.abort();
+    controller = null;
+    status.value = "closed";
+  };
+
+  watch(
+    () => [resolvePath(), JSON.stringify(unref(opts.filter))],
+    () => {
+      if (status.value === "open" || status.value === "connecting") {
+        connect();
+      }
+    }
+  );
+
+  if (getCurrentScope()) {
+    onScopeDispose(disconnect);
+  }
+
+  if (immediate) {
+    connect();
+  }
+
+  return {
+    status,
+    lastEvent,
+    error,
+    connect,
+    disconnect,
+  };
+}
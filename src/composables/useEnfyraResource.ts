@@ -0,0 +1,375 @@
+import { ref, computed } from "vue";
+import type {
+  ApiError,
+  BatchResult,
+  EnfyraQueryInput,
+  PaginatedResponse,
+  BatchProgress,
+  ResourceBatchOptions,
+  ResourceMutationOptions,
+  ResourceOptions,
+  UseEnfyraResourceReturn,
+} from "../types";
+import { useEnfyraApi } from "./useEnfyraApi";
+import { resolveQuery } from "../utils/query";
+
+/**
+ * Enfyra wraps records in `{ data: [...] }`, take the first one
+ */
+function unwrapRecord<T>(response: any): T | null {
+  if (!response) return null;
+  if (Array.isArray(response.data)) return response.data[0] ?? null;
+  return response.data ?? response;
+}
+
+function isBatchResult<T>(value: any): value is BatchResult<T> {
+  return !!value && Array.isArray(value.items) && "aborted" in value;
+}
+
+/**
+ * Records returned by a batch, keyed by the id or body they belong to
+ */
+function getBatchRecords<T>(
+  response: T[] | BatchResult<T>,
+  items: any[]
+): { item: any; record: T | null }[] {
+  if (isBatchResult<T>(response)) {
+    return response.items
+      .filter((outcome) => outcome.status === "completed")
+      .map((outcome) => ({
+        item: outcome.item,
+        record: unwrapRecord<T>(outcome.result),
+      }));
+  }
+
+  return response.map((result, index) => ({
+    item: items[index],
+    record: unwrapRecord<T>(result),
+  }));
+}
+
+export function useEnfyraResource<T extends Record<string, any> = any>(
+  path: (() => string) | string,
+  opts: ResourceOptions = {}
+): UseEnfyraResourceReturn<T> {
+  const { primaryKey = "id", errorContext, onError, headers, retry } = opts;
+
+  const items = ref<T[]>([]) as UseEnfyraResourceReturn<T>["items"];
+  const item = ref<T | null>(null) as UseEnfyraResourceReturn<T>["item"];
+  const meta = ref<PaginatedResponse<T>["meta"] | null>(null);
+  const error = ref<ApiError | null>(null);
+
+  const shared = { headers, retry, onError };
+  const batch = {
+    batchSize: opts.batchSize,
+    concurrent: opts.concurrent,
+    continueOnError: opts.continueOnError,
+    onProgress: opts.onProgress,
+  };
+
+  const listApi = useEnfyraApi<PaginatedResponse<T>>(path, {
+    ...shared,
+    errorContext: errorContext ?? "List",
+  });
+  const getApi = useEnfyraApi<PaginatedResponse<T>>(path, {
+    ...shared,
+    errorContext: errorContext ?? "Get",
+  });
+  const createApi = useEnfyraApi<any>(path, {
+    ...shared,
+    ...batch,
+    method: "post",
+    errorContext: errorContext ?? "Create",
+  });
+  const updateApi = useEnfyraApi<any>(path, {
+    ...shared,
+    ...batch,
+    method: "patch",
+    errorContext: errorContext ?? "Update",
+  });
+  const removeApi = useEnfyraApi<any>(path, {
+    ...shared,
+    ...batch,
+    method: "delete",
+    errorContext: errorContext ?? "Remove",
+  });
+
+  const apis = [listApi, getApi, createApi, updateApi, removeApi];
+
+  const pending = computed(() => apis.some((api) => api.pending.value));
+
+  /**
+   * Run an operation and mirror its error into the shared error ref
+   */
+  async function run<R>(
+    api: (typeof apis)[number],
+    operation: () => Promise<R>
+  ): Promise<R> {
+    error.value = null;
+    const result = await operation();
+    error.value = api.error.value;
+    return result;
+  }
+
+  const sameId = (record: T, id: string | number) =>
+    String(record?.[primaryKey]) === String(id);
+
+  const upsertItem = (record: T | null) => {
+    if (!record) return;
+    const index = items.value.findIndex((existing) =>
+      sameId(existing, record[primaryKey])
+    );
+    if (index === -1) {
+      items.value = [...items.value, record];
+    } else {
+      items.value = items.value.map((existing, i) =>
+        i === index ? { ...existing, ...record } : existing
+      );
+    }
+  };
+
+  const removeItems = (ids: (string | number)[]) => {
+    items.value = items.value.filter(
+      (record) => !ids.some((id) => sameId(record, id))
+    );
+  };
+
+  const isOptimistic = (options?: ResourceMutationOptions) =>
+    options?.optimistic ?? opts.optimistic ?? false;
+
+  /**
+   * Apply a change to `items` and `item` now. The returned function puts back
+   * the previous version of the given ids, at their previous position.
+   */
+  const applyOptimistic = (
+    ids: (string | number)[],
+    change: (record: T) => T | null
+  ) => {
+    const previousItems = items.value;
+    const previousItem = item.value;
+    const affects = (record: T) => ids.some((id) => sameId(record, id));
+
+    items.value = items.value.flatMap((record) => {
+      if (!affects(record)) return [record];
+      const next = change(record);
+      return next ? [next] : [];
+    });
+    if (item.value && affects(item.value)) {
+      item.value = change(item.value);
+    }
+
+    return (failedIds: (string | number)[]) => {
+      const next = [...items.value];
+      failedIds.forEach((id) => {
+        const index = previousItems.findIndex((record) => sameId(record, id));
+        if (index === -1) return;
+        const current = next.findIndex((record) => sameId(record, id));
+        if (current === -1) {
+          next.splice(Math.min(index, next.length), 0, previousItems[index]);
+        } else {
+          next[current] = previousItems[index];
+        }
+      });
+      items.value = next;
+
+      if (previousItem && failedIds.some((id) => sameId(previousItem, id))) {
+        item.value = previousItem;
+      }
+    };
+  };
+
+  /**
+   * Record which batch items completed and their responses, whether or not
+   * the batch continues on error
+   */
+  const trackBatch = (options?: ResourceBatchOptions) => {
+    const completed = new Map<number, unknown>();
+    const onProgress = (progress: BatchProgress) => {
+      progress.results.forEach((result) => {
+        if (result.status === "completed") {
+          completed.set(result.index, result.result);
+        }
+      });
+      (options?.onProgress ?? opts.onProgress)?.(progress);
+    };
+    return { completed, onProgress };
+  };
+
+  const list = (query?: EnfyraQueryInput) =>
+    run(listApi, async () => {
+      const response = (await listApi.execute({
+        query: { ...resolveQuery(opts.query), ...resolveQuery(query) },
+      })) as PaginatedResponse<T> | null;
+      if (!response) return null;
+
+      items.value = response.data || [];
+      meta.value = response.meta ?? null;
+      return items.value;
+    });
+
+  const get = (id: string | number, query?: EnfyraQueryInput) =>
+    run(getApi, async () => {
+      const base = { ...resolveQuery(opts.query), ...resolveQuery(query) };
+      const response = await getApi.execute({
+        query: {
+          ...base,
+          filter: base.filter
+            ? { _and: [base.filter, { [primaryKey]: { _eq: id } }] }
+            : { [primaryKey]: { _eq: id } },
+          limit: 1,
+        },
+      });
+
+      item.value = unwrapRecord<T>(response);
+      return item.value;
+    });
+
+  const create = (body: Partial<T>) =>
+    run(createApi, async () => {
+      const record = unwrapRecord<T>(await createApi.execute({ body }));
+      upsertItem(record);
+      return record;
+    });
+
+  const update = (
+    id: string | number,
+    body: Partial<T>,
+    options?: ResourceMutationOptions
+  ) =>
+    run(updateApi, async () => {
+      const rollback = isOptimistic(options)
+        ? applyOptimistic([id], (record) => ({ ...record, ...body }))
+        : null;
+
+      const record = unwrapRecord<T>(await updateApi.execute({ id, body }));
+      if (updateApi.error.value) {
+        rollback?.([id]);
+        return null;
+      }
+
+      upsertItem(record);
+      if (record && item.value && sameId(item.value, id)) {
+        item.value = { ...item.value, ...record };
+      }
+      return record;
+    });
+
+  const remove = (id: string | number, options?: ResourceMutationOptions) =>
+    run(removeApi, async () => {
+      const rollback = isOptimistic(options)
+        ? applyOptimistic([id], () => null)
+        : null;
+
+      await removeApi.execute({ id });
+      if (removeApi.error.value) {
+        rollback?.([id]);
+        return false;
+      }
+
+      removeItems([id]);
+      if (item.value && sameId(item.value, id)) {
+        item.value = null;
+      }
+      return true;
+    });
+
+  const createMany = (
+    bodies: Partial<T>[],
+    options?: Omit<ResourceBatchOptions, "optimistic">
+  ) =>
+    run(createApi, async () => {
+      const { completed, onProgress } = trackBatch(options);
+      const response = (await createApi.execute({
+        bodies,
+        ...options,
+        onProgress,
+      })) as T[] | BatchResult<T> | null;
+      if (!response) {
+        // A batch stopped by a failure still created the items that completed
+        completed.forEach((result) => upsertItem(unwrapRecord<T>(result)));
+        return null;
+      }
+
+      getBatchRecords(response, bodies).forEach(({ record }) =>
+        upsertItem(record)
+      );
+      return response;
+    });
+
+  const updateMany = (
+    ids: (string | number)[],
+    body: Partial<T>,
+    { optimistic, ...options }: ResourceBatchOptions = {}
+  ) =>
+    run(updateApi, async () => {
+      const rollback = isOptimistic({ optimistic })
+        ? applyOptimistic(ids, (record) => ({ ...record, ...body }))
+        : null;
+      const { completed, onProgress } = trackBatch(options);
+
+      const response = (await updateApi.execute({
+        ids,
+        body,
+        ...options,
+        onProgress,
+      })) as T[] | BatchResult<T> | null;
+      rollback?.(ids.filter((_, index) => !completed.has(index)));
+      if (!response) {
+        // A batch stopped by a failure still updated the items that completed
+        completed.forEach((result) => upsertItem(unwrapRecord<T>(result)));
+        return null;
+      }
+
+      getBatchRecords(response, ids).forEach(({ record }) =>
+        upsertItem(record)
+      );
+      return response;
+    });
+
+  const removeMany = (
+    ids: (string | number)[],
+    { optimistic, ...options }: ResourceBatchOptions = {}
+  ) =>
+    run(removeApi, async () => {
+      const rollback = isOptimistic({ optimistic })
+        ? applyOptimistic(ids, () => null)
+        : null;
+      const { completed, onProgress } = trackBatch(options);
+
+      const response = (await removeApi.execute({
+        ids,
+        ...options,
+        onProgress,
+      })) as T[] | BatchResult<T> | null;
+      rollback?.(ids.filter((_, index) => !completed.has(index)));
+      if (!response) {
+        // A batch stopped by a failure still removed the items that completed
+        removeItems(ids.filter((_, index) => completed.has(index)));
+        return null;
+      }
+
+      removeItems(getBatchRecords(response, ids).map(({ item }) => item));
+      return response;
+    });
+
+  const abort = () => {
+    apis.forEach((api) => api.abort());
+  };
+
+  return {
+    items,
+    item,
+    meta,
+    pending,
+    error,
+    list,
+    get,
+    create,
+    update,
+    remove,
+    createMany,
+    updateMany,
+    removeMany,
+    abort,
+  };
+}
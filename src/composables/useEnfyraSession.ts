@@ -0,0 +1,27 @@
+import { computed, readonly } from "vue";
+import type { UseEnfyraSessionReturn } from "../types";
+import {
+  useSessionState,
+  useSessionExpiring,
+  startSessionSync,
+  checkSession,
+  renewSession,
+} from "../utils/session";
+
+export function useEnfyraSession(): UseEnfyraSessionReturn {
+  const session = useSessionState();
+  const isExpiring = useSessionExpiring();
+
+  // The first call in the browser starts the refresh schedule and tab sync
+  if (process.client) {
+    startSessionSync();
+  }
+
+  return {
+    session: readonly(session),
+    isAuthenticated: computed(() => !!session.value?.authenticated),
+    isExpiring: readonly(isExpiring),
+    check: checkSession,
+    refresh: renewSession,
+  };
+}
@@ -0,0 +1,291 @@
+import { ref, computed } from "vue";
+import type {
+  ApiError,
+  BatchResult,
+  UploadFileState,
+  UploadOptions,
+  UploadProgress,
+  UseEnfyraUploadReturn,
+} from "../types";
+import { $fetch } from "../utils/http";
+import { getAppUrl } from "../utils/url";
+import { resolveRetryOptions, withRetry } from "../utils/retry";
+import { toApiError, handleError } from "../utils/error";
+import {
+  $upload,
+  canTrackUpload,
+  createUploadState,
+  getUploadSize,
+  uploadChunked,
+  type ChunkedUploadState,
+} from "../utils/upload";
+import { ENFYRA_API_PREFIX } from "../constants/config";
+import { DEFAULT_CHUNK_SIZE } from "../constants/upload";
+import { useRuntimeConfig } from "#imports";
+
+function getFileName(input: File | FormData, index: number): string {
+  if (input instanceof File) return input.name;
+
+  let name: string | undefined;
+  input.forEach((value) => {
+    if (!name && value instanceof File) name = value.name;
+  });
+  return name || `file-${index + 1}`;
+}
+
+/** Files of one upload() call, kept apart from later calls */
+interface UploadBatch<T> {
+  inputs: (File | FormData)[];
+  bodies: FormData[];
+  states: ChunkedUploadState[];
+  controllers: (AbortController | null)[];
+  files: UploadFileState<T>[];
+}
+
+export function useEnfyraUpload<T = any>(
+  path: (() => string) | string,
+  opts: UploadOptions = {}
+): UseEnfyraUploadReturn<T> {
+  const { method = "post", fieldName = "file", errorContext, onError } = opts;
+  const chunkSize = opts.chunked
+    ? (opts.chunked === true ? undefined : opts.chunked.chunkSize) ??
+      DEFAULT_CHUNK_SIZE
+    : 0;
+
+  const config = useRuntimeConfig().public.enfyraSDK;
+  const baseURL = getAppUrl() + (config?.apiPrefix || ENFYRA_API_PREFIX);
+  const retry = resolveRetryOptions(config?.retry, opts.retry);
+
+  const files = ref<UploadFileState<T>[]>([]) as UseEnfyraUploadReturn<T>["files"];
+  const pending = ref(false);
+  const error = ref<ApiError | null>(null);
+
+  let current: UploadBatch<T> = {
+    inputs: [],
+    bodies: [],
+    states: [],
+    controllers: [],
+    files: files.value,
+  };
+  let running = 0;
+
+  const progress = computed<UploadProgress>(() => {
+    const loaded = files.value.reduce((sum, file) => sum + file.loaded, 0);
+    const total = files.value.reduce((sum, file) => sum + file.size, 0);
+    return {
+      loaded,
+      total,
+      progress: total > 0 ? Math.round((loaded / total) * 100) : 0,
+      completed: files.value.filter((file) => file.status === "completed").length,
+      failed: files.value.filter((file) => file.status === "failed").length,
+    };
+  });
+
+  const toFormData = (input: File | FormData): FormData => {
+    if (input instanceof FormData) return input;
+    const form = new FormData();
+    Object.entries(opts.fields || {}).forEach(([key, value]) =>
+      form.append(key, value)
+    );
+    form.append(fieldName, input);
+    return form;
+  };
+
+  const uploadFile = async (batch: UploadBatch<T>, index: number) => {
+    const { bodies, states, controllers } = batch;
+    const file = batch.files[index];
+    const controller = new AbortController();
+    controllers[index] = controller;
+    file.status = "uploading";
+    file.error = undefined;
+
+    const onBytes = (loaded: number) => {
+      file.loaded = Math.min(loaded, file.size);
+      file.progress =
+        file.size > 0 ? Math.round((file.loaded / file.size) * 100) : 0;
+      opts.onProgress?.(progress.value);
+    };
+
+    const basePath = (typeof path === "function" ? path() : path)
+      .replace(/^\/?api\/?/, "")
+      .replace(/^\/+/, "");
+    const requestOptions = {
+      baseURL,
+      method,
+      headers: opts.headers,
+      query: opts.query,
+      replaySafe: opts.replaySafe,
+      signal: controller.signal,
+      onProgress: onBytes,
+    };
+
+    try {
+      let result: T;
+      if (!canTrackUpload()) {
+        result = await withRetry(
+          () => $fetch<T>(basePath, { ...requestOptions, body: bodies[index] }),
+          { method, retry, signal: controller.signal }
+        );
+      } else if (chunkSize) {
+        result = await uploadChunked<T>(basePath, bodies[index], {
+          ...requestOptions,
+          chunkSize,
+          state: states[index],
+          retry,
+        });
+      } else {
+        result = await withRetry(
+          () => $upload<T>(basePath, bodies[index], requestOptions),
+          {
+            method,
+            retry,
+            signal: controller.signal,
+            onRetry: () => onBytes(0),
+          }
+        );
+      }
+
+      file.result = result;
+      file.status = "completed";
+      onBytes(file.size);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        file.status = "cancelled";
+      } else {
+        file.status = "failed";
+        file.error = toApiError(err);
+      }
+      // Only chunks the server acknowledged count as uploaded
+      onBytes(chunkSize ? states[index].offset : 0);
+    } finally {
+      controllers[index] = null;
+    }
+  };
+
+  /**
+   * Upload the given files with the batch size and concurrency settings
+   */
+  const run = async (
+    batch: UploadBatch<T>,
+    indexes: number[]
+  ): Promise<BatchResult<T>> => {
+    running++;
+    pending.value = true;
+    error.value = null;
+
+    const batchSize = opts.batchSize || indexes.length;
+    for (let chunkStart = 0; chunkStart < indexes.length; chunkStart += batchSize) {
+      const chunk = indexes.slice(chunkStart, chunkStart + batchSize);
+      const groupSize = opts.concurrent || chunk.length;
+
+      for (let groupStart = 0; groupStart < chunk.length; groupStart += groupSize) {
+        // Files cancelled before their turn are skipped
+        const group = chunk
+          .slice(groupStart, groupStart + groupSize)
+          .filter((index) => batch.files[index].status === "pending");
+        await Promise.all(group.map((index) => uploadFile(batch, index)));
+      }
+    }
+
+    running--;
+    pending.value = running > 0;
+
+    const items = indexes.map((index) => {
+      const file = batch.files[index];
+      return {
+        index,
+        item: batch.inputs[index],
+        status: file.status as "completed" | "failed" | "cancelled",
+        result: file.result,
+        error: file.error,
+      };
+    });
+    const summary: BatchResult<T> = {
+      items,
+      succeeded: items.filter((item) => item.status === "completed").length,
+      failed: items.filter((item) => item.status === "failed").length,
+      cancelled: items.filter((item) => item.status === "cancelled").length,
+      aborted: items.some((item) => item.status === "cancelled"),
+    };
+
+    // A batch replaced by a later upload() no longer owns the error
+    if (summary.failed > 0 && batch === current) {
+      error.value = handleError(
+        {
+          message: `${summary.failed} of ${items.length} uploads failed`,
+          data: summary,
+        },
+        errorContext,
+        onError
+      );
+    }
+
+    return summary;
+  };
+
+  const cancel = (index?: number) => {
+    const targets =
+      index === undefined ? files.value.map((_, i) => i) : [index];
+    targets.forEach((i) => {
+      const file = files.value[i];
+      if (!file) return;
+      if (file.status === "pending") {
+        file.status = "cancelled";
+      }
+      current.controllers[i]?.abort();
+    });
+  };
+
+  /**
+   * Upload a new list of files, cancelling the uploads of the previous call.
+   * Each call keeps its own files, so a cancelled run never touches the new list.
+   */
+  const upload = (newFiles: (File | FormData)[]) => {
+    cancel();
+
+    const bodies = newFiles.map(toFormData);
+    files.value = newFiles.map((input, index) => ({
+      index,
+      name: getFileName(input, index),
+      size: getUploadSize(bodies[index]),
+      loaded: 0,
+      progress: 0,
+      status: "pending",
+    }));
+    current = {
+      inputs: newFiles,
+      bodies,
+      states: newFiles.map(() => createUploadState()),
+      controllers: newFiles.map(() => null),
+      // The reactive array, so progress updates reach the UI
+      files: files.value,
+    };
+
+    return run(current, files.value.map((_, index) => index));
+  };
+
+  const resume = (index?: number) => {
+    const targets = (
+      index === undefined ? files.value.map((_, i) => i) : [index]
+    ).filter((i) =>
+      ["failed", "cancelled"].includes(files.value[i]?.status)
+    );
+
+    // Chunked uploads continue after the last acknowledged chunk
+    targets.forEach((i) => {
+      files.value[i].status = "pending";
+    });
+
+    return run(current, targets);
+  };
+
+  return {
+    files,
+    progress,
+    pending,
+    error,
+    upload,
+    cancel,
+    resume,
+  };
+}
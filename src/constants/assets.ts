@@ -0,0 +1,13 @@
+/**
+ * Route proxying file assets to the backend
+ */
+export const ASSETS_ROUTE = "/assets";
+
+/**
+ * Cache-Control set on proxied assets. Responses fetched with the user's
+ * access token, or marked private by the backend, use `private`.
+ */
+export const DEFAULT_ASSET_CACHE_CONTROL = {
+  public: "public, max-age=86400",
+  private: "private, no-cache",
+};
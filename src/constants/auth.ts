@@ -1,3 +1,37 @@
 export const ACCESS_TOKEN_KEY = "accessToken";
 export const REFRESH_TOKEN_KEY = "refreshToken";
-export const EXP_TIME_KEY = "expTime";
\ No newline at end of file
+export const EXP_TIME_KEY = "expTime";
+export const REMEMBER_KEY = "remember";
+
+/**
+ * `useState` keys of the auth state, kept per request during SSR
+ */
+export const USER_STATE_KEY = "enfyra:user";
+export const AUTH_LOADING_STATE_KEY = "enfyra:auth-loading";
+
+/**
+ * Auth lifecycle hooks, called on the Nuxt app and on the Nitro app
+ */
+export const AUTH_HOOKS = {
+  login: "enfyra:login",
+  logout: "enfyra:logout",
+  tokenRefreshed: "enfyra:token:refreshed",
+  sessionExpired: "enfyra:session:expired",
+  unauthorized: "enfyra:unauthorized",
+} as const;
+
+export const LOGIN_ROUTE = "/login";
+export const LOGOUT_ROUTE = "/logout";
+export const REFRESH_ROUTE = "/refresh";
+
+/**
+ * Header marking a non-idempotent request as safe to replay after a token refresh
+ */
+export const REPLAY_SAFE_HEADER = "x-enfyra-replay-safe";
+export const REPLAYABLE_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Fallback lifetime in seconds for remembered sessions when the refresh
+ * token does not carry an `exp` claim
+ */
+export const DEFAULT_REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 7;
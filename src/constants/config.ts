@@ -1,5 +1,5 @@
 /**
- * Hardcoded API prefix for all Enfyra SDK routes
- * This ensures no conflicts with application routes
+ * Default API prefix for all Enfyra SDK routes, overridden by the `apiPrefix`
+ * module option. Keeps SDK routes clear of application routes.
  */
 export const ENFYRA_API_PREFIX = "/enfyra/api";
\ No newline at end of file
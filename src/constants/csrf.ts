@@ -0,0 +1,15 @@
+/**
+ * SDK route issuing the CSRF cookie, for clients loaded without a page render
+ */
+export const CSRF_ROUTE = "/csrf";
+
+/**
+ * Double-submit token: readable cookie, echoed by the client in the header
+ */
+export const CSRF_COOKIE = "enfyraCsrf";
+export const CSRF_HEADER = "x-enfyra-csrf";
+
+/**
+ * Methods that never change state and skip the CSRF check
+ */
+export const CSRF_SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
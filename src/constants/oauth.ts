@@ -0,0 +1,28 @@
+/**
+ * SDK routes starting an external login and receiving the provider's
+ * callback, under the Enfyra API prefix
+ */
+export const OAUTH_ROUTE = "/oauth";
+export const OAUTH_CALLBACK_ROUTE = "/callback";
+
+/**
+ * Cookie holding state, PKCE verifier and nonce of a login in progress
+ */
+export const OAUTH_STATE_COOKIE = "enfyraOAuth";
+export const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+export const DEFAULT_OAUTH_SCOPES = ["openid", "email", "profile"];
+
+/**
+ * Enfyra endpoint exchanging the provider's tokens for Enfyra tokens
+ */
+export const DEFAULT_OAUTH_EXCHANGE_ENDPOINT = "/auth/oauth";
+
+/**
+ * `error` query codes sent to the login page when an external login fails
+ */
+export const OAUTH_ERRORS = {
+  state: "OAUTH_STATE_INVALID",
+  denied: "OAUTH_DENIED",
+  failed: "OAUTH_FAILED",
+} as const;
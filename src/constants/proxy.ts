@@ -0,0 +1,4 @@
+/**
+ * Nitro runtime hook called before the API proxy forwards a request
+ */
+export const PROXY_HOOK = "enfyra:proxy";
@@ -0,0 +1,9 @@
+/**
+ * SDK route streaming realtime events, under the Enfyra API prefix
+ */
+export const REALTIME_ROUTE = "/realtime";
+
+/**
+ * Backend Server-Sent Events endpoint the SDK route connects to
+ */
+export const DEFAULT_REALTIME_ENDPOINT = "/realtime";
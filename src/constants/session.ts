@@ -0,0 +1,35 @@
+/**
+ * SDK route reporting when the session expires, under the Enfyra API prefix
+ */
+export const SESSION_ROUTE = "/session";
+
+/**
+ * `useState` keys of the client session state
+ */
+export const SESSION_STATE_KEY = "enfyra:session";
+export const SESSION_EXPIRING_STATE_KEY = "enfyra:session-expiring";
+
+/**
+ * BroadcastChannel the tabs of an app share session changes on
+ */
+export const SESSION_CHANNEL = "enfyra:session";
+
+/**
+ * Refresh the access token 60s before it expires, and report the session
+ * as expiring 5 minutes before the refresh token runs out
+ */
+export const DEFAULT_SESSION_OPTIONS = {
+  refreshBefore: 60_000,
+  warnBefore: 5 * 60_000,
+};
+
+/**
+ * Scheduled refreshes happen up to this many ms earlier at random, so tabs
+ * opened at the same time do not all refresh at once
+ */
+export const SESSION_REFRESH_JITTER = 5_000;
+
+/**
+ * Minimum time between two scheduled refreshes
+ */
+export const MIN_SESSION_REFRESH_INTERVAL = 10_000;
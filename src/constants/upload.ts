@@ -0,0 +1,14 @@
+/**
+ * Default chunk size for chunked uploads (5 MB)
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Header identifying the upload a chunk belongs to
+ */
+export const UPLOAD_ID_HEADER = "x-upload-id";
+
+/**
+ * Optional response header with the number of bytes the server has stored
+ */
+export const UPLOAD_OFFSET_HEADER = "upload-offset";
@@ -3,11 +3,49 @@ import {
   createResolver,
   addServerHandler,
   addImportsDir,
+  addImports,
   addPlugin,
+  addRouteMiddleware,
+  addTypeTemplate,
+  addComponent,
+  addServerImports,
 } from "@nuxt/kit";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
 import { ENFYRA_API_PREFIX } from "./constants/config";
+import { LOGIN_ROUTE, LOGOUT_ROUTE, REFRESH_ROUTE } from "./constants/auth";
+import { REALTIME_ROUTE } from "./constants/realtime";
+import { SESSION_ROUTE } from "./constants/session";
+import { OAUTH_ROUTE, OAUTH_CALLBACK_ROUTE } from "./constants/oauth";
+import { CSRF_ROUTE, CSRF_COOKIE } from "./constants/csrf";
+import { ASSETS_ROUTE } from "./constants/assets";
+import { PROXY_HOOK } from "./constants/proxy";
+import {
+  fetchSchemaSnapshot,
+  generateSchemaTypes,
+  readSchemaSnapshot,
+  writeSchemaSnapshot,
+} from "./utils/typegen";
+import type { EnfyraConfig, EnfyraTypegenConfig } from "./types";
 
-export default defineNuxtModule({
+/**
+ * `api/`, `/api/` and `/api` all become `/api`. The root would shadow every
+ * app route, so it falls back to the default prefix.
+ */
+function normalizeApiPrefix(prefix?: string): string {
+  const normalized = "/" + (prefix || "").replace(/^\/+|\/+$/g, "");
+  if (normalized === "/") {
+    if (prefix) {
+      console.warn(
+        `[Enfyra SDK Nuxt] apiPrefix cannot be the root, using ${ENFYRA_API_PREFIX}`
+      );
+    }
+    return ENFYRA_API_PREFIX;
+  }
+  return normalized;
+}
+
+export default defineNuxtModule<EnfyraConfig>({
   meta: {
     name: "@enfyra/sdk-nuxt",
     configKey: "enfyraSDK",
@@ -17,6 +55,61 @@ export default defineNuxtModule({
   },
   setup(options, nuxt) {
     const { resolve } = createResolver(import.meta.url);
+    const {
+      cookie,
+      typegen,
+      realtime,
+      assets,
+      serviceAccount,
+      proxy,
+      authRoutes,
+      ssrUser,
+      oauth,
+      csrf,
+      ...publicOptions
+    } = options;
+    const apiPrefix = normalizeApiPrefix(options.apiPrefix);
+    // Public types: src/types/index.ts, built to dist/index.d.ts (dist/types.d.ts only holds ModuleOptions)
+    const typesEntry = existsSync(resolve("./types/index.ts"))
+      ? resolve("./types/index")
+      : resolve("./index");
+
+    // Server-only options stay out of the client payload
+    nuxt.options.runtimeConfig.enfyraSDK = {
+      cookie: {
+        ...cookie,
+        secure: cookie?.secure ?? !nuxt.options.dev,
+      },
+      realtime,
+      assets,
+      // Empty defaults let NUXT_ENFYRA_SDK_SERVICE_ACCOUNT_* override them at runtime
+      serviceAccount: {
+        apiKey: "",
+        email: "",
+        password: "",
+        ...serviceAccount,
+      },
+      proxy,
+      authRoutes,
+      ssrUser: ssrUser === true ? {} : ssrUser || undefined,
+      // Empty secrets let NUXT_ENFYRA_SDK_OAUTH_<NAME>_CLIENT_SECRET override them at runtime
+      oauth:
+        oauth &&
+        Object.fromEntries(
+          Object.entries(oauth).map(([name, provider]) => [
+            name,
+            { clientSecret: "", ...provider },
+          ])
+        ),
+      csrf:
+        csrf === false
+          ? false
+          : { exclude: [], trustedOrigins: [], ...(csrf === true ? {} : csrf) },
+    };
+
+    // The client only needs the cookie name to send the token back
+    const publicCsrf =
+      csrf === false ? false : { cookieName: `${cookie?.prefix || ""}${CSRF_COOKIE}` };
 
     if (!options.apiUrl) {
       console.warn(
@@ -29,15 +122,17 @@ export default defineNuxtModule({
       );
       
       nuxt.options.runtimeConfig.public.enfyraSDK = {
-        ...options,
-        apiPrefix: ENFYRA_API_PREFIX,
+        ...publicOptions,
+        apiPrefix,
+        csrf: publicCsrf,
         configError: true,
         configErrorMessage: 'Enfyra SDK: apiUrl is required. Please configure it in nuxt.config.ts'
       };
     } else {
       nuxt.options.runtimeConfig.public.enfyraSDK = {
-        ...options,
-        apiPrefix: ENFYRA_API_PREFIX,
+        ...publicOptions,
+        apiPrefix,
+        csrf: publicCsrf,
       };
     }
 
@@ -51,31 +146,191 @@ export default defineNuxtModule({
     
     addImportsDir(resolve("./composables"));
 
+    addImports({
+      name: "enfyraQuery",
+      from: resolve("./utils/query"),
+    });
+
+    addComponent({
+      name: "EnfyraImage",
+      filePath: resolve("./runtime/components/EnfyraImage"),
+    });
+
+    addRouteMiddleware({
+      name: "enfyra",
+      path: resolve("./runtime/middleware/enfyra"),
+    });
+
+    addTypeTemplate({
+      filename: "types/enfyra-app.d.ts",
+      getContents: () =>
+        [
+          `import type { EnfyraPageMeta, EnfyraAuthHooks } from "${typesEntry}";`,
+          `declare module "#app" {`,
+          `  interface PageMeta {`,
+          `    enfyra?: EnfyraPageMeta;`,
+          `  }`,
+          `  interface RuntimeNuxtHooks extends EnfyraAuthHooks {}`,
+          `}`,
+          `export {};`,
+        ].join("\n"),
+    });
+
+    addTypeTemplate(
+      {
+        filename: "types/enfyra-nitro.d.ts",
+        getContents: () =>
+          [
+            `import type { EnfyraProxyContext, EnfyraServerAuthHooks } from "${typesEntry}";`,
+            `declare module "nitropack" {`,
+            `  interface NitroRuntimeHooks extends EnfyraServerAuthHooks {`,
+            `    "${PROXY_HOOK}": (context: EnfyraProxyContext) => void | Promise<void>;`,
+            `  }`,
+            `}`,
+            `export {};`,
+          ].join("\n"),
+      },
+      { nitro: true, nuxt: true }
+    );
+
+    if (typegen) {
+      const typegenOptions: EnfyraTypegenConfig =
+        typegen === true ? {} : typegen;
+
+      addTypeTemplate({
+        filename: "types/enfyra.d.ts",
+        getContents: async () => {
+          const snapshotFile = join(
+            nuxt.options.rootDir,
+            typegenOptions.snapshot || "enfyra.schema.json"
+          );
+          let snapshot = null;
+
+          if (typegenOptions.fetch !== false && options.apiUrl) {
+            try {
+              snapshot = await fetchSchemaSnapshot({
+                apiUrl: options.apiUrl,
+                token:
+                  typegenOptions.token || process.env.ENFYRA_TYPEGEN_TOKEN,
+                endpoint: typegenOptions.endpoint,
+              });
+              if (typegenOptions.updateSnapshot) {
+                await writeSchemaSnapshot(snapshotFile, snapshot);
+              }
+            } catch (error: any) {
+              console.warn(
+                `[Enfyra SDK Nuxt] Could not fetch schema for type generation: ${error?.message}`
+              );
+            }
+          }
+
+          snapshot = snapshot || (await readSchemaSnapshot(snapshotFile));
+          if (!snapshot) {
+            console.warn(
+              `[Enfyra SDK Nuxt] No schema available for type generation, ` +
+                `run \`npx enfyra-typegen\` to create ${snapshotFile}`
+            );
+            return `export {};\n`;
+          }
+
+          return generateSchemaTypes(snapshot, typesEntry);
+        },
+      });
+    }
+
+    addServerImports([
+      {
+        name: "useEnfyraServerClient",
+        from: resolve("./utils/server/client"),
+      },
+      {
+        name: "useEnfyraServiceClient",
+        from: resolve("./utils/server/service"),
+      },
+    ]);
+
+    addPlugin({
+      src: resolve("./runtime/plugin/auth.server"),
+      mode: "server",
+    });
+
+    if (ssrUser) {
+      addPlugin({
+        src: resolve("./runtime/plugin/user.server"),
+        mode: "server",
+      });
+    }
+
+    if (csrf !== false) {
+      addServerHandler({
+        handler: resolve("./runtime/server/middleware/csrf"),
+        middleware: true,
+      });
+
+      addServerHandler({
+        route: `${apiPrefix}${CSRF_ROUTE}`,
+        handler: resolve("./runtime/server/api/csrf.get"),
+        method: "get",
+      });
+    }
+
     addServerHandler({
       handler: resolve("./runtime/server/middleware/auth"),
       middleware: true,
     });
 
     addServerHandler({
-      route: `${ENFYRA_API_PREFIX}/login`,
+      route: `${apiPrefix}${LOGIN_ROUTE}`,
       handler: resolve("./runtime/server/api/login.post"),
       method: "post",
     });
 
     addServerHandler({
-      route: `${ENFYRA_API_PREFIX}/logout`,
+      route: `${apiPrefix}${LOGOUT_ROUTE}`,
       handler: resolve("./runtime/server/api/logout.post"),
       method: "post",
     });
 
+    addServerHandler({
+      route: `${apiPrefix}${REFRESH_ROUTE}`,
+      handler: resolve("./runtime/server/api/refresh.post"),
+      method: "post",
+    });
 
     addServerHandler({
-      route: "/assets/**",
-      handler: resolve("./runtime/server/api/all"),
+      route: `${apiPrefix}${SESSION_ROUTE}`,
+      handler: resolve("./runtime/server/api/session.get"),
+      method: "get",
+    });
+
+
+    if (oauth) {
+      addServerHandler({
+        route: `${apiPrefix}${OAUTH_ROUTE}/:provider`,
+        handler: resolve("./runtime/server/api/oauth.get"),
+        method: "get",
+      });
+
+      addServerHandler({
+        route: `${apiPrefix}${OAUTH_ROUTE}/:provider${OAUTH_CALLBACK_ROUTE}`,
+        handler: resolve("./runtime/server/api/oauth-callback.get"),
+        method: "get",
+      });
+    }
+
+    addServerHandler({
+      route: `${apiPrefix}${REALTIME_ROUTE}`,
+      handler: resolve("./runtime/server/api/realtime.get"),
+      method: "get",
+    });
+
+    addServerHandler({
+      route: `${ASSETS_ROUTE}/**`,
+      handler: resolve("./runtime/server/api/assets"),
     });
 
     addServerHandler({
-      route: `${ENFYRA_API_PREFIX}/**`,
+      route: `${apiPrefix}/**`,
       handler: resolve("./runtime/server/api/all"),
     });
   },
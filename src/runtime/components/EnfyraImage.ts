@@ -0,0 +1,50 @@
+import { computed, defineComponent, h, type PropType } from "vue";
+import type { AssetSource, AssetTransformOptions } from "../../types";
+import { getAssetUrl, getAssetSrcset } from "../../utils/asset";
+
+/**
+ * `<img>` for an Enfyra file, with image transforms and an optional srcset
+ */
+export default defineComponent({
+  name: "EnfyraImage",
+  props: {
+    src: {
+      type: [String, Number, Object] as PropType<AssetSource>,
+      required: true,
+    },
+    alt: { type: String, default: "" },
+    width: Number,
+    height: Number,
+    fit: String as PropType<AssetTransformOptions["fit"]>,
+    format: String as PropType<AssetTransformOptions["format"]>,
+    quality: Number,
+    /** Widths for the generated `srcset` */
+    widths: Array as PropType<number[]>,
+    sizes: String,
+    loading: {
+      type: String as PropType<"lazy" | "eager">,
+      default: "lazy",
+    },
+  },
+  setup(props) {
+    const transform = computed(() => ({
+      height: props.height,
+      fit: props.fit,
+      format: props.format,
+      quality: props.quality,
+    }));
+
+    return () =>
+      h("img", {
+        src: getAssetUrl(props.src, { ...transform.value, width: props.width }),
+        srcset: props.widths?.length
+          ? getAssetSrcset(props.src, props.widths, transform.value)
+          : undefined,
+        sizes: props.sizes,
+        alt: props.alt,
+        width: props.width,
+        height: props.height,
+        loading: props.loading,
+      });
+  },
+});
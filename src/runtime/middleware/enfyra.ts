@@ -0,0 +1,37 @@
+import {
+  defineNuxtRouteMiddleware,
+  navigateTo,
+  abortNavigation,
+  useRuntimeConfig,
+} from "#imports";
+import type { EnfyraPageMeta } from "../../types/auth";
+import { useEnfyraAuth } from "../../composables/useEnfyraAuth";
+import { meetsRequirements } from "../../utils/permissions";
+
+export default defineNuxtRouteMiddleware(async (to) => {
+  const meta: EnfyraPageMeta = (to.meta.enfyra as EnfyraPageMeta) || {};
+  const redirects = useRuntimeConfig().public?.enfyraSDK?.redirects;
+  const { me, fetchUser } = useEnfyraAuth();
+
+  if (!me.value) {
+    await fetchUser();
+  }
+
+  if (!me.value) {
+    if (meta.auth === false) {
+      return;
+    }
+    return navigateTo({
+      path: redirects?.login || "/login",
+      query: { redirect: to.fullPath },
+    });
+  }
+
+  if (meta.requires && !meetsRequirements(me.value, meta.requires)) {
+    const target = meta.redirectTo || redirects?.forbidden;
+    if (target) {
+      return navigateTo(target);
+    }
+    return abortNavigation({ statusCode: 403, statusMessage: "Forbidden" });
+  }
+});
@@ -0,0 +1,13 @@
+import { defineNuxtPlugin, useRequestEvent } from '#imports';
+import { resolveAuthHeaders } from '../../utils/server/refreshToken';
+
+/**
+ * Refresh an expired session while rendering a page, so the new auth cookies
+ * are sent with the page response rather than lost on internal API calls
+ */
+export default defineNuxtPlugin(async () => {
+  const event = useRequestEvent();
+  if (event) {
+    await resolveAuthHeaders(event);
+  }
+});
@@ -0,0 +1,31 @@
+import { defineNuxtPlugin, useRequestEvent, useRuntimeConfig, useState } from '#imports';
+import type { User } from '../../types/auth';
+import { USER_STATE_KEY } from '../../constants/auth';
+import { resolveAuthHeaders } from '../../utils/server/refreshToken';
+import { useEnfyraServerClient } from '../../utils/server/client';
+
+/**
+ * Load the current user from the auth cookies while rendering a page. The
+ * state is serialized into the payload, so the client starts logged in.
+ */
+export default defineNuxtPlugin(async () => {
+  const event = useRequestEvent();
+  if (!event) return;
+
+  const me = useState<User | null>(USER_STATE_KEY, () => null);
+  await resolveAuthHeaders(event);
+  if (!event.context.proxyHeaders?.authorization) {
+    me.value = null;
+    return;
+  }
+
+  const fields = useRuntimeConfig().enfyraSDK?.ssrUser?.fields;
+  try {
+    const response = await useEnfyraServerClient(event).get<{ data?: User[] }>('/me', {
+      query: fields?.length ? { fields: fields.join(',') } : undefined,
+    });
+    me.value = response?.data?.[0] ?? null;
+  } catch {
+    me.value = null;
+  }
+});
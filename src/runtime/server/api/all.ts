@@ -1,6 +1,15 @@
-import { defineEventHandler } from "h3";
-import { proxyToAPI } from "../../../utils/server/proxy";
+import { defineEventHandler, sendError } from "h3";
+import { proxyToAPI, getProxyPath } from "../../../utils/server/proxy";
+import {
+  resolveProxyPath,
+  createBlockedError,
+} from "../../../utils/server/policy";
 
 export default defineEventHandler(async (event) => {
-  return proxyToAPI(event);
+  const path = await resolveProxyPath(event, getProxyPath(event));
+  if (!path) {
+    return sendError(event, createBlockedError());
+  }
+
+  return proxyToAPI(event, path);
 });
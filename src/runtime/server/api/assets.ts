@@ -0,0 +1,6 @@
+import { defineEventHandler } from "h3";
+import { proxyAssetToAPI } from "../../../utils/server/proxy";
+
+export default defineEventHandler(async (event) => {
+  return proxyAssetToAPI(event);
+});
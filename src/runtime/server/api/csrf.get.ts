@@ -0,0 +1,11 @@
+import { defineEventHandler, setResponseHeader } from "h3";
+import { resolveCsrfToken } from "../../../utils/server/csrf";
+
+/**
+ * Issue the CSRF cookie for clients that were not loaded through a page
+ * render, e.g. a statically served SPA
+ */
+export default defineEventHandler((event) => {
+  setResponseHeader(event, "cache-control", "no-store");
+  return { token: resolveCsrfToken(event) };
+});
@@ -1,18 +1,15 @@
 import {
   defineEventHandler,
   readBody,
-  setCookie,
   createError,
   sendError,
   getHeader,
 } from "h3";
 import { useRuntimeConfig } from "#imports";
 import { $fetch } from "ofetch";
-import {
-  ACCESS_TOKEN_KEY,
-  REFRESH_TOKEN_KEY,
-  EXP_TIME_KEY,
-} from "../../../constants/auth";
+import { setAuthCookies } from "../../../utils/server/cookies";
+import { callServerAuthHook } from "../../../utils/server/hooks";
+import { AUTH_HOOKS } from "../../../constants/auth";
 
 export default defineEventHandler(async (event) => {
   const config = useRuntimeConfig();
@@ -29,16 +26,16 @@ export default defineEventHandler(async (event) => {
     });
 
     const { accessToken, refreshToken, expTime } = response;
-    const cookieOptions = {
-      httpOnly: true,
-      secure: true,
-      sameSite: "lax" as const,
-      path: "/",
-    };
 
-    setCookie(event, ACCESS_TOKEN_KEY, accessToken, cookieOptions);
-    setCookie(event, REFRESH_TOKEN_KEY, refreshToken, cookieOptions);
-    setCookie(event, EXP_TIME_KEY, String(expTime), cookieOptions);
+    setAuthCookies(
+      event,
+      { accessToken, refreshToken, expTime },
+      !!body?.remember
+    );
+    await callServerAuthHook(AUTH_HOOKS.login, {
+      event,
+      remember: !!body?.remember,
+    });
 
     return { accessToken };
   } catch (err: any) {
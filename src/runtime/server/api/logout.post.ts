@@ -1,39 +1,40 @@
-import { defineEventHandler, getHeader, getCookie, deleteCookie } from "h3";
+import { defineEventHandler, getHeader } from "h3";
 import { useRuntimeConfig } from "#imports";
 import { $fetch } from "ofetch";
 import {
-  ACCESS_TOKEN_KEY,
-  REFRESH_TOKEN_KEY,
-  EXP_TIME_KEY,
-} from "../../../constants/auth";
+  getAuthCookie,
+  deleteAuthCookies,
+} from "../../../utils/server/cookies";
+import { callServerAuthHook } from "../../../utils/server/hooks";
+import { AUTH_HOOKS } from "../../../constants/auth";
 
 export default defineEventHandler(async (event) => {
   const config = useRuntimeConfig();
   const apiUrl = config.public?.enfyraSDK?.apiUrl;
 
-  const refreshToken = getCookie(event, REFRESH_TOKEN_KEY);
+  const refreshToken = getAuthCookie(event, "refreshToken");
+  // The auth middleware skips this route, read the access token directly
+  const accessToken = getAuthCookie(event, "accessToken");
 
   try {
     const result = await $fetch(`${apiUrl}/auth/logout`, {
       method: "POST",
       headers: {
         cookie: getHeader(event, "cookie") || "",
-        authorization: event.context.proxyHeaders?.authorization,
+        ...(accessToken ? { authorization: `Bearer ${accessToken}` } : {}),
       },
       body: {
         refreshToken,
       },
     });
 
-    deleteCookie(event, ACCESS_TOKEN_KEY);
-    deleteCookie(event, REFRESH_TOKEN_KEY);
-    deleteCookie(event, EXP_TIME_KEY);
+    deleteAuthCookies(event);
+    await callServerAuthHook(AUTH_HOOKS.logout, { event });
 
     return result;
   } catch (err: any) {
-    deleteCookie(event, ACCESS_TOKEN_KEY);
-    deleteCookie(event, REFRESH_TOKEN_KEY);
-    deleteCookie(event, EXP_TIME_KEY);
+    deleteAuthCookies(event);
+    await callServerAuthHook(AUTH_HOOKS.logout, { event });
 
     return { success: false, message: "Logout completed locally" };
   }
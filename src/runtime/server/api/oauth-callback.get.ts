@@ -0,0 +1,63 @@
+import { defineEventHandler, sendRedirect, getQuery, getRouterParam } from "h3";
+import { useRuntimeConfig } from "#imports";
+import {
+  setAuthCookies,
+  takeOAuthStateCookie,
+} from "../../../utils/server/cookies";
+import {
+  getOAuthProvider,
+  getOAuthPath,
+  exchangeAuthorizationCode,
+  sendOAuthError,
+  type OAuthState,
+} from "../../../utils/server/oauth";
+import { callServerAuthHook } from "../../../utils/server/hooks";
+import { AUTH_HOOKS } from "../../../constants/auth";
+import { OAUTH_ERRORS } from "../../../constants/oauth";
+
+/**
+ * Provider callback: check the state, exchange the code for Enfyra tokens
+ * and set the same cookies as the password login
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, "provider") || "";
+  const provider = getOAuthProvider(name);
+  const { code, state, error } = getQuery(event);
+
+  let saved: OAuthState | null = null;
+  try {
+    saved = JSON.parse(takeOAuthStateCookie(event, getOAuthPath()) || "null");
+  } catch {
+    saved = null;
+  }
+
+  if (
+    !provider ||
+    !saved ||
+    saved.provider !== name ||
+    typeof state !== "string" ||
+    saved.state !== state
+  ) {
+    return sendOAuthError(event, OAUTH_ERRORS.state);
+  }
+
+  if (error || typeof code !== "string") {
+    return sendOAuthError(event, OAUTH_ERRORS.denied, saved.redirect);
+  }
+
+  try {
+    const tokens = await exchangeAuthorizationCode(event, provider, saved, code);
+    setAuthCookies(event, tokens, saved.remember);
+    await callServerAuthHook(AUTH_HOOKS.login, {
+      event,
+      remember: saved.remember,
+      provider: name,
+    });
+  } catch (err) {
+    console.warn(`[Enfyra SDK] ${name} login failed:`, err);
+    return sendOAuthError(event, OAUTH_ERRORS.failed, saved.redirect);
+  }
+
+  const afterLogin = useRuntimeConfig().public?.enfyraSDK?.redirects?.afterLogin;
+  return sendRedirect(event, saved.redirect || afterLogin || "/", 302);
+});
@@ -0,0 +1,53 @@
+import {
+  defineEventHandler,
+  createError,
+  sendError,
+  sendRedirect,
+  getQuery,
+  getRouterParam,
+} from "h3";
+import { isLocalPath } from "../../../utils/redirect";
+import { setOAuthStateCookie } from "../../../utils/server/cookies";
+import {
+  getOAuthProvider,
+  getOAuthPath,
+  createAuthorizationRequest,
+  sendOAuthError,
+} from "../../../utils/server/oauth";
+import { OAUTH_ERRORS } from "../../../constants/oauth";
+
+/**
+ * Start a login at an external provider: remember state, nonce and PKCE
+ * verifier in a short-lived cookie, then redirect to the provider
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, "provider") || "";
+  const provider = getOAuthProvider(name);
+  if (!provider) {
+    return sendError(
+      event,
+      createError({
+        statusCode: 404,
+        statusMessage: "Unknown login provider",
+        data: { code: "NOT_FOUND" },
+      })
+    );
+  }
+
+  const { redirect, remember } = getQuery(event);
+  const target = isLocalPath(redirect) ? redirect : undefined;
+
+  try {
+    const { url, state } = await createAuthorizationRequest(
+      event,
+      name,
+      provider,
+      { redirect: target, remember: remember === "1" || remember === "true" }
+    );
+    setOAuthStateCookie(event, JSON.stringify(state), getOAuthPath());
+    return sendRedirect(event, url, 302);
+  } catch (error) {
+    console.warn(`[Enfyra SDK] Could not start ${name} login:`, error);
+    return sendOAuthError(event, OAUTH_ERRORS.failed, target);
+  }
+});
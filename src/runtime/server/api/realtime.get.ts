@@ -0,0 +1,111 @@
+import {
+  defineEventHandler,
+  createError,
+  sendError,
+  createEventStream,
+  getQuery,
+} from "h3";
+import { useRuntimeConfig } from "#imports";
+import { decodeJWT } from "../../../utils/server/jwt";
+import { readEventStream } from "../../../utils/sse";
+import {
+  resolveProxyPath,
+  createBlockedError,
+} from "../../../utils/server/policy";
+import { DEFAULT_REALTIME_ENDPOINT } from "../../../constants/realtime";
+
+// Ask the client to reconnect this long before the access token expires
+const REAUTH_MARGIN = 30_000;
+
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig();
+  const apiUrl = config.public?.enfyraSDK?.apiUrl;
+  const endpoint = config.enfyraSDK?.realtime?.endpoint || DEFAULT_REALTIME_ENDPOINT;
+  const { path, filter } = getQuery(event);
+
+  if (!apiUrl || typeof path !== "string") {
+    return sendError(
+      event,
+      createError({ statusCode: 400, statusMessage: "Missing realtime path" })
+    );
+  }
+
+  // Subscribing reads the table, so it follows the proxy policy for GET
+  const allowedPath = await resolveProxyPath(event, path, "GET");
+  if (!allowedPath) {
+    return sendError(event, createBlockedError());
+  }
+
+  const target = new URL(`${apiUrl.replace(/\/+$/, "")}${endpoint}`);
+  target.searchParams.set("path", allowedPath);
+  if (typeof filter === "string") {
+    target.searchParams.set("filter", filter);
+  }
+
+  // The auth middleware already refreshed the access token if needed
+  const authorization: string | undefined =
+    event.context.proxyHeaders?.authorization;
+  const controller = new AbortController();
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      headers: {
+        accept: "text/event-stream",
+        ...(authorization ? { authorization } : {}),
+      },
+      signal: controller.signal,
+    });
+  } catch {
+    return sendError(
+      event,
+      createError({ statusCode: 502, statusMessage: "Realtime unavailable" })
+    );
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    const unauthorized = upstream.status === 401;
+    return sendError(
+      event,
+      createError({
+        statusCode: unauthorized ? 401 : 502,
+        statusMessage: unauthorized ? "Unauthorized" : "Realtime unavailable",
+        data: unauthorized ? { code: "UNAUTHORIZED" } : undefined,
+      })
+    );
+  }
+
+  const stream = createEventStream(event);
+  let reauthTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const exp = authorization ? decodeJWT(authorization.slice(7))?.exp : null;
+  if (exp) {
+    reauthTimer = setTimeout(async () => {
+      await stream.push({ event: "reauth", data: "{}" });
+      await stream.close();
+    }, Math.max(0, exp * 1000 - Date.now() - REAUTH_MARGIN));
+  }
+
+  stream.onClosed(() => {
+    clearTimeout(reauthTimer);
+    controller.abort();
+  });
+
+  (async () => {
+    try {
+      for await (const message of readEventStream(upstream.body!)) {
+        await stream.push({
+          event: message.event,
+          data: message.data,
+          id: message.id,
+        });
+      }
+    } catch {
+      // Upstream dropped or the client went away, the client reconnects
+    } finally {
+      await stream.close();
+    }
+  })();
+
+  return stream.send();
+});
@@ -0,0 +1,31 @@
+import { defineEventHandler, createError, sendError } from "h3";
+import { useRuntimeConfig } from "#imports";
+import {
+  refreshAccessToken,
+  getRefreshToken,
+} from "../../../utils/server/refreshToken";
+
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig();
+  const apiUrl = config.public?.enfyraSDK?.apiUrl;
+  const refreshToken = getRefreshToken(event);
+
+  try {
+    if (!apiUrl || !refreshToken) {
+      throw new Error("No refresh token");
+    }
+
+    await refreshAccessToken(event, refreshToken, apiUrl);
+
+    return { success: true };
+  } catch {
+    return sendError(
+      event,
+      createError({
+        statusCode: 401,
+        statusMessage: "Unauthorized",
+        data: { code: "UNAUTHORIZED" },
+      })
+    );
+  }
+});
@@ -0,0 +1,38 @@
+import { defineEventHandler, setResponseHeader } from "h3";
+import type { EnfyraSessionResponse } from "../../../types/auth";
+import { getAuthCookie, parseExpTime } from "../../../utils/server/cookies";
+import { decodeJWT } from "../../../utils/server/jwt";
+
+/**
+ * Expiry of the current session. The auth cookies are httpOnly, so this is
+ * how the browser learns when to refresh. Tokens are never returned and
+ * nothing is refreshed here. Opaque access tokens expire at the `expTime`
+ * cookie, and a missing access token is reported as already expired.
+ */
+export default defineEventHandler((event): EnfyraSessionResponse => {
+  const now = Date.now();
+  const accessToken = getAuthCookie(event, "accessToken");
+  const refreshToken = getAuthCookie(event, "refreshToken");
+
+  const accessExp = accessToken ? decodeJWT(accessToken)?.exp : undefined;
+  const refreshExp = refreshToken ? decodeJWT(refreshToken)?.exp : undefined;
+  const expiresAt = accessToken
+    ? accessExp
+      ? accessExp * 1000
+      : parseExpTime(getAuthCookie(event, "expTime")) ?? null
+    : refreshToken
+      ? now
+      : null;
+  const refreshExpiresAt = refreshExp ? refreshExp * 1000 : null;
+
+  setResponseHeader(event, "cache-control", "no-store");
+
+  return {
+    authenticated:
+      (!!expiresAt && expiresAt > now) ||
+      (!!refreshToken && (!refreshExpiresAt || refreshExpiresAt > now)),
+    expiresAt,
+    refreshExpiresAt,
+    serverTime: now,
+  };
+});
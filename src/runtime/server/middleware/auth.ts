@@ -1,44 +1,53 @@
-import { defineEventHandler, getCookie } from "h3";
+import { defineEventHandler, type H3Event } from "h3";
 import { useRuntimeConfig } from "#imports";
+import { resolveAuthHeaders } from "../../../utils/server/refreshToken";
+import { matchesPathPattern } from "../../../utils/server/pattern";
 import {
-  validateTokens,
-  refreshAccessToken,
-} from "../../../utils/server/refreshToken";
-import { REFRESH_TOKEN_KEY } from "../../../constants/auth";
+  LOGIN_ROUTE,
+  LOGOUT_ROUTE,
+  REFRESH_ROUTE,
+} from "../../../constants/auth";
+import { SESSION_ROUTE } from "../../../constants/session";
+import { OAUTH_ROUTE } from "../../../constants/oauth";
+import { CSRF_ROUTE } from "../../../constants/csrf";
+import { ENFYRA_API_PREFIX } from "../../../constants/config";
 
-export default defineEventHandler(async (event) => {
-  if (
-    event.node.req.url === "/api/login" ||
-    event.node.req.url === "/api/logout"
-  ) {
-    return;
-  }
-
-  const { accessToken, needsRefresh } = validateTokens(event);
+const isUnder = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
 
-  let currentAccessToken: string | null = accessToken;
+/**
+ * Only SDK routes and the configured `authRoutes` need the user's token;
+ * login, logout, refresh and the OAuth routes handle the auth cookies
+ * themselves, the session route only reports them and the CSRF route
+ * does not use them. `/assets` resolves the token itself, only for files
+ * the backend does not serve anonymously.
+ */
+function needsAuth(event: H3Event): boolean {
+  const config = useRuntimeConfig();
+  const apiPrefix = config.public?.enfyraSDK?.apiPrefix || ENFYRA_API_PREFIX;
+  const pathname = event.path.split("?")[0];
 
-  if (needsRefresh) {
-    const refreshToken = getCookie(event, REFRESH_TOKEN_KEY);
-    if (refreshToken) {
-      try {
-        const config = useRuntimeConfig();
-        const apiUrl = config.public?.enfyraSDK?.apiUrl;
-        if (apiUrl) {
-          currentAccessToken = await refreshAccessToken(
-            event,
-            refreshToken,
-            apiUrl
-          );
-        }
-      } catch (error) {
-        currentAccessToken = null;
-      }
-    }
+  if (isUnder(pathname, apiPrefix)) {
+    return (
+      ![
+        LOGIN_ROUTE,
+        LOGOUT_ROUTE,
+        REFRESH_ROUTE,
+        SESSION_ROUTE,
+        CSRF_ROUTE,
+      ].some(
+        (route) => pathname === `${apiPrefix}${route}`
+      ) && !isUnder(pathname, `${apiPrefix}${OAUTH_ROUTE}`)
+    );
   }
 
-  if (currentAccessToken) {
-    event.context.proxyHeaders = event.context.proxyHeaders || {};
-    event.context.proxyHeaders.authorization = `Bearer ${currentAccessToken}`;
+  return !!config.enfyraSDK?.authRoutes?.some((pattern) =>
+    matchesPathPattern(pattern, pathname)
+  );
+}
+
+export default defineEventHandler(async (event) => {
+  if (needsAuth(event)) {
+    await resolveAuthHeaders(event);
   }
 });
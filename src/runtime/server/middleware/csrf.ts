@@ -0,0 +1,59 @@
+import { defineEventHandler, createError, getHeader, type H3Event } from "h3";
+import { useRuntimeConfig } from "#imports";
+import {
+  resolveCsrfToken,
+  isCsrfRequestValid,
+} from "../../../utils/server/csrf";
+import { matchesPathPattern } from "../../../utils/server/pattern";
+import { CSRF_SAFE_METHODS } from "../../../constants/csrf";
+import { ENFYRA_API_PREFIX } from "../../../constants/config";
+
+const isUnder = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+/**
+ * Page loads get the token cookie, so the first write of the app has it
+ */
+function isPageRequest(event: H3Event): boolean {
+  return (
+    getHeader(event, "sec-fetch-dest") === "document" ||
+    !!getHeader(event, "accept")?.includes("text/html")
+  );
+}
+
+/**
+ * Issue the CSRF cookie on page loads and SDK reads, and reject writes to
+ * the SDK routes without a valid token or from a foreign origin
+ */
+export default defineEventHandler((event) => {
+  const config = useRuntimeConfig();
+  const csrf = config.enfyraSDK?.csrf;
+  if (!csrf) return;
+
+  const apiPrefix = config.public?.enfyraSDK?.apiPrefix || ENFYRA_API_PREFIX;
+  const pathname = event.path.split("?")[0];
+  const isSdkRoute = isUnder(pathname, apiPrefix);
+
+  if (CSRF_SAFE_METHODS.includes(event.method.toUpperCase())) {
+    if (isSdkRoute || isPageRequest(event)) {
+      resolveCsrfToken(event);
+    }
+    return;
+  }
+
+  const path = pathname.slice(apiPrefix.length) || "/";
+  if (
+    !isSdkRoute ||
+    csrf.exclude?.some((pattern) => matchesPathPattern(pattern, path))
+  ) {
+    return;
+  }
+
+  if (!isCsrfRequestValid(event, csrf)) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: "Invalid CSRF token",
+      data: { code: "CSRF_INVALID" },
+    });
+  }
+});
@@ -1,4 +1,5 @@
-import type { Ref } from 'vue'
+import type { Ref, ComputedRef } from 'vue'
+import type { H3Event } from 'h3'
 
 export interface User {
   id: string
@@ -27,10 +28,102 @@ export interface LoginPayload {
   remember?: boolean
 }
 
+export interface LoginWithOptions {
+  /** Local page opened after the login (default: the `?redirect=` query, then `redirects.afterLogin`) */
+  redirect?: string
+  /** Same as `LoginPayload.remember` */
+  remember?: boolean
+}
+
 export interface UseEnfyraAuthReturn {
   me: Ref<User | null>
   login: (payload: LoginPayload) => Promise<any>
   logout: () => Promise<void>
   fetchUser: (options?: { fields?: string[] }) => Promise<void>
+  loginWith: (provider: string, options?: LoginWithOptions) => Promise<void>
   isLoggedIn: Ref<boolean>
-}
\ No newline at end of file
+}
+
+/** A backend route the current user must be allowed to call */
+export type RouteRequirement =
+  | string
+  | {
+      path: string
+      /** HTTP method (default: 'GET') */
+      method?: string
+    }
+
+/** Page meta read by the `enfyra` route middleware */
+export interface EnfyraPageMeta {
+  /** Require a logged in user (default: true) */
+  auth?: boolean
+  /** Routes the user must be allowed to call - all of them must pass */
+  requires?: RouteRequirement | RouteRequirement[]
+  /** Override the configured redirect for users missing a permission */
+  redirectTo?: string
+}
+
+export interface UseEnfyraPermissionsReturn {
+  permissions: ComputedRef<RoutePermission[]>
+  isRootAdmin: ComputedRef<boolean>
+  can: (path: string, method?: string) => boolean
+  canAll: (requirements: RouteRequirement | RouteRequirement[]) => boolean
+}
+
+/** Session expiry reported by the SDK session route, without the tokens */
+export interface EnfyraSession {
+  /** A valid access token or a usable refresh token is present */
+  authenticated: boolean
+  /** When the access token expires, in ms since epoch (null when unknown) */
+  expiresAt: number | null
+  /** When the refresh token expires, in ms since epoch (null when unknown) */
+  refreshExpiresAt: number | null
+}
+
+export interface EnfyraSessionResponse extends EnfyraSession {
+  /** Server clock in ms, used to correct the client's clock skew */
+  serverTime: number
+}
+
+export interface UseEnfyraSessionReturn {
+  /** Session shared by the app, with timestamps on the client clock (null until checked) */
+  session: Readonly<Ref<EnfyraSession | null>>
+  isAuthenticated: ComputedRef<boolean>
+  /** The refresh token runs out within `session.warnBefore`, the user will have to log in again */
+  isExpiring: Readonly<Ref<boolean>>
+  /** Reload the session from the session route */
+  check: () => Promise<EnfyraSession | null>
+  /** Refresh the access token now */
+  refresh: () => Promise<boolean>
+}
+
+type HookResult = void | Promise<void>
+
+/** Auth hooks called on the Nuxt app, register them with `nuxtApp.hook()` */
+export interface EnfyraAuthHooks {
+  /** After a successful `login()` */
+  'enfyra:login': (context: { response: any }) => HookResult
+  /** After `logout()` cleared the user */
+  'enfyra:logout': () => HookResult
+  /** The session cookies were refreshed after a `401` */
+  'enfyra:token:refreshed': () => HookResult
+  /** A refresh failed, the user has to log in again */
+  'enfyra:session:expired': () => HookResult
+  /** A request was rejected with `401` after any refresh attempt */
+  'enfyra:unauthorized': (context: { url: string; method: string }) => HookResult
+}
+
+/** Auth hooks called on the Nitro app, register them in a Nitro plugin */
+export interface EnfyraServerAuthHooks {
+  'enfyra:login': (context: {
+    event: H3Event
+    remember: boolean
+    /** External provider of a `loginWith()` login */
+    provider?: string
+  }) => HookResult
+  'enfyra:logout': (context: { event: H3Event }) => HookResult
+  'enfyra:token:refreshed': (context: { event: H3Event }) => HookResult
+  'enfyra:session:expired': (context: { event: H3Event }) => HookResult
+  /** A proxied request was rejected with `401` after any refresh attempt */
+  'enfyra:unauthorized': (context: { event: H3Event; path: string }) => HookResult
+}
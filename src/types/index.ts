@@ -1,6 +1,200 @@
+import type { H3Event } from 'h3';
+import type { EnfyraQueryInput } from './query';
+
+export interface EnfyraCookieConfig {
+  /** Prefix added to every auth cookie name */
+  prefix?: string;
+  /** Override individual auth cookie names */
+  names?: {
+    accessToken?: string;
+    refreshToken?: string;
+    expTime?: string;
+    remember?: string;
+  };
+  domain?: string;
+  /** Cookie path (default: '/') */
+  path?: string;
+  /** SameSite policy (default: 'lax') */
+  sameSite?: 'lax' | 'strict' | 'none';
+  /** Secure flag (default: true, false in development) */
+  secure?: boolean;
+  /** Lifetime in seconds of remembered sessions when the refresh token carries no `exp` (default: 7 days) */
+  refreshTokenMaxAge?: number;
+}
+
+export interface EnfyraSSRUserConfig {
+  /** User fields requested from `/me`, like `fetchUser({ fields })` */
+  fields?: string[];
+}
+
+export interface EnfyraRedirectConfig {
+  /** Page unauthenticated users are sent to by the `enfyra` middleware (default: '/login') */
+  login?: string;
+  /** Page users missing a required permission are sent to (default: 403 error) */
+  forbidden?: string;
+  /** Page `login()` navigates to, or the `?redirect=` page set by the `enfyra` middleware (default: stay) */
+  afterLogin?: string;
+  /** Page `logout()` navigates to (default: stay) */
+  afterLogout?: string;
+}
+
+export interface EnfyraSessionConfig {
+  /** Refresh the access token this many ms before it expires (default: 60000) */
+  refreshBefore?: number;
+  /** Report the session as expiring this many ms before the refresh token runs out (default: 300000) */
+  warnBefore?: number;
+}
+
+export interface EnfyraCsrfConfig {
+  /** SDK paths without the API prefix that skip the check, e.g. '/webhooks/**' */
+  exclude?: string[];
+  /** Origins besides the app's own allowed to send mutating requests, e.g. 'https://admin.example.com' */
+  trustedOrigins?: string[];
+}
+
+export interface RetryOptions {
+  /** Retries after the first failed attempt (default: 3) */
+  attempts?: number;
+  /** Initial backoff delay in ms (default: 300) */
+  delay?: number;
+  /** Backoff multiplier per attempt (default: 2) */
+  factor?: number;
+  /** Upper bound for the backoff delay in ms, a longer Retry-After is not waited for (default: 10000) */
+  maxDelay?: number;
+  /** Randomize each delay between 0 and the backoff (default: true) */
+  jitter?: boolean;
+  /** Status codes worth retrying (default: 408, 429, 502, 503, 504) */
+  statusCodes?: number[];
+  /** Methods allowed to retry (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  methods?: string[];
+}
+
+/** `true` for defaults, a number of attempts, options, or `false` to disable */
+export type RetryConfig = boolean | number | RetryOptions;
+
+export interface EnfyraTypegenConfig {
+  /** Pull the schema from the backend during build (default: true) */
+  fetch?: boolean;
+  /** JSON snapshot used for offline builds, relative to rootDir (default: 'enfyra.schema.json') */
+  snapshot?: string;
+  /** Write the fetched schema back to the snapshot (default: false) */
+  updateSnapshot?: boolean;
+  /** Bearer token for the metadata request (default: process.env.ENFYRA_TYPEGEN_TOKEN) */
+  token?: string;
+  /** Metadata endpoint (default: '/table_definition') */
+  endpoint?: string;
+}
+
 export interface EnfyraConfig {
   apiUrl: string;
+  /** Route prefix of the SDK's server routes and API proxy (default: '/enfyra/api') */
+  apiPrefix?: string;
+  /** Extra server routes the auth middleware resolves the user's token for, e.g. '/api/reports/**' */
+  authRoutes?: string[];
+  /** Resolve the current user during SSR so `useEnfyraAuth().me` is set on the first paint */
+  ssrUser?: boolean | EnfyraSSRUserConfig;
   defaultHeaders?: Record<string, string>;
+  /** CSRF protection of mutating SDK routes, `false` to disable (default: enabled) */
+  csrf?: boolean | EnfyraCsrfConfig;
+  /** Auth cookie policy used by login, logout and token refresh */
+  cookie?: EnfyraCookieConfig;
+  /** Redirect targets used by the `enfyra` route middleware */
+  redirects?: EnfyraRedirectConfig;
+  /** Proactive refresh and expiry warning of `useEnfyraSession` */
+  session?: EnfyraSessionConfig;
+  /** Default retry policy for client requests (default: disabled) */
+  retry?: RetryConfig;
+  /** Generate `.nuxt/types/enfyra.d.ts` from the Enfyra schema */
+  typegen?: boolean | EnfyraTypegenConfig;
+  /** Backend event stream used by `useEnfyraRealtime` (server-only) */
+  realtime?: EnfyraRealtimeConfig;
+  /** Caching of files proxied through `/assets/**` (server-only) */
+  assets?: EnfyraAssetsConfig;
+  /** Credentials used by `useEnfyraServiceClient` (server-only) */
+  serviceAccount?: EnfyraServiceAccountConfig;
+  /** External identity providers for `loginWith()`, by name (server-only) */
+  oauth?: Record<string, EnfyraOAuthProviderConfig>;
+  /** Backend paths reachable through the API proxy (server-only) */
+  proxy?: EnfyraProxyConfig;
+}
+
+export interface EnfyraRealtimeConfig {
+  /** Backend Server-Sent Events endpoint (default: '/realtime') */
+  endpoint?: string;
+}
+
+/**
+ * Backend path pattern without the API prefix: `*` matches one path segment,
+ * `**` any number of them (`/posts/**` also matches `/posts`)
+ */
+export type ProxyRule = string | { path: string; methods?: string[] };
+
+export interface EnfyraProxyConfig {
+  /** When set, only matching requests are proxied */
+  allow?: ProxyRule[];
+  /** Matching requests are blocked, even when allowed */
+  deny?: ProxyRule[];
+  /** Status of blocked requests (default: 403) */
+  blockedStatus?: 403 | 404;
+}
+
+/**
+ * Passed to the `enfyra:proxy` Nitro hook before a request is proxied.
+ * Set `blocked` to veto the request, or change `path` to rewrite it.
+ */
+export interface EnfyraProxyContext {
+  event: H3Event;
+  /** Backend path with query string, without the API prefix */
+  path: string;
+  method: string;
+  blocked: boolean;
+}
+
+/**
+ * Service account for server-to-server calls. Kept in private runtime config,
+ * so it can also be set with `NUXT_ENFYRA_SDK_SERVICE_ACCOUNT_*` variables.
+ */
+export interface EnfyraServiceAccountConfig {
+  /** Static API token sent as `Authorization: Bearer <apiKey>` */
+  apiKey?: string;
+  /** Credentials the SDK logs in with when no `apiKey` is set */
+  email?: string;
+  password?: string;
+}
+
+/**
+ * External identity provider for `loginWith()`. Endpoints are read from the
+ * issuer's OIDC discovery document unless set explicitly.
+ */
+export interface EnfyraOAuthProviderConfig {
+  /** OIDC issuer, e.g. 'https://accounts.google.com' */
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  clientId: string;
+  /** Omit for public clients, PKCE protects the code exchange */
+  clientSecret?: string;
+  /** Requested scopes (default: ['openid', 'email', 'profile']) */
+  scopes?: string[];
+  /** Extra authorization request parameters, e.g. { prompt: 'select_account' } */
+  params?: Record<string, string>;
+  /** Callback URL registered with the provider (default: '<origin><apiPrefix>/oauth/<name>/callback') */
+  redirectUri?: string;
+  /** Enfyra endpoint exchanging the provider tokens for Enfyra tokens (default: '/auth/oauth') */
+  exchangeEndpoint?: string;
+}
+
+export interface EnfyraAssetsConfig {
+  /**
+   * Cache-Control for proxied assets; `false` keeps the backend's header.
+   * `private` applies to files fetched with the user's access token.
+   */
+  cacheControl?: {
+    /** Default: 'public, max-age=86400' */
+    public?: string | false;
+    /** Default: 'private, no-cache' */
+    private?: string | false;
+  };
 }
 
 export interface ApiError {
@@ -19,6 +213,10 @@ export interface BatchProgress {
   total: number;
   /** Number of failed operations */
   failed: number;
+  /** Number of operations skipped or cancelled by abort() */
+  cancelled: number;
+  /** Total number of retries across all operations */
+  retries: number;
   /** Number of operations currently in progress */
   inProgress: number;
   /** Estimated time remaining in milliseconds */
@@ -31,6 +229,12 @@ export interface BatchProgress {
   totalBatches: number;
   /** Processing speed (operations per second) */
   operationsPerSecond?: number;
+  /** Uploaded bytes of a `files` batch, in total and per file */
+  bytes?: {
+    loaded: number;
+    total: number;
+    files: { loaded: number; total: number }[];
+  };
   /** Detailed results array for completed operations */
   results: Array<{
     index: number;
@@ -38,13 +242,51 @@ export interface BatchProgress {
     result?: any;
     error?: ApiError;
     duration?: number;
+    /** Number of retries before this result */
+    retries?: number;
   }>;
 }
 
+export interface CacheOptions {
+  /** Time in ms a cached response is served without refetching (default: 0) */
+  staleTime?: number;
+  /** Time in ms an unused entry is kept before it is dropped (default: 5 minutes) */
+  cacheTime?: number;
+  /** Tags used to invalidate this entry */
+  tags?: string[];
+  /** Refetch stale entries in use when the window regains focus (default: true) */
+  revalidateOnFocus?: boolean;
+  /** Refetch stale entries in use when the browser comes back online (default: true) */
+  revalidateOnReconnect?: boolean;
+}
+
+/** Cache entries to invalidate, by tag or by path (sub-paths included) */
+export interface CacheInvalidation {
+  tags?: string[];
+  paths?: string[];
+}
+
+/** The mutation an optimistic update is computed for */
+export interface OptimisticChange {
+  id?: string | number;
+  ids?: (string | number)[];
+  body?: any;
+  /** Bodies or files of a batch POST */
+  bodies?: (Record<string, any> | FormData)[];
+}
+
+export interface OptimisticUpdate {
+  /** Cached responses to update (default: cached reads of this path) */
+  target?: CacheInvalidation;
+  /** Return the optimistic value of a cached response, without mutating it */
+  update: (data: any, change: OptimisticChange) => any;
+}
+
 interface BaseApiOptions<T> {
   method?: 'get' | 'post' | 'put' | 'patch' | 'delete' | 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   body?: any;
-  query?: Record<string, any>;
+  /** Query params as a plain object or an `enfyraQuery()` builder */
+  query?: EnfyraQueryInput;
   headers?: Record<string, string>;
   errorContext?: string;
   onError?: (error: ApiError, context?: string) => void;
@@ -54,6 +296,18 @@ interface BaseApiOptions<T> {
   ssr?: boolean;
   /** Unique key for useFetch caching */
   key?: string;
+  /** Extra sources that trigger a refetch, or `false` to disable auto-refetch (SSR mode only) */
+  watch?: WatchSource[] | false;
+  /** Allow replaying this POST/PATCH after a 401 triggers a token refresh */
+  replaySafe?: boolean;
+  /** Retry transient failures, overrides the module-level retry policy */
+  retry?: RetryConfig;
+  /** Share GET responses through the client cache (client mode only) */
+  cache?: boolean | CacheOptions;
+  /** Cache entries to invalidate after a successful mutation, in addition to this path. `false` disables invalidation */
+  invalidates?: CacheInvalidation | false;
+  /** Join identical GET requests already in flight (client mode only, default: true) */
+  dedupe?: boolean;
 }
 
 interface BatchApiOptions {
@@ -63,6 +317,8 @@ interface BatchApiOptions {
   concurrent?: number;
   /** Real-time progress callback for batch operations - Only available for batch operations */
   onProgress?: (progress: BatchProgress) => void;
+  /** Keep processing when an item fails and resolve with a BatchResult summary - Only available for batch operations */
+  continueOnError?: boolean;
 }
 
 type ConditionalBatchOptions<T> = T extends { method?: 'patch' | 'delete' | 'PATCH' | 'DELETE' }
@@ -92,7 +348,7 @@ export interface BackendErrorExtended extends BackendError {
   };
 }
 
-import type { Ref } from 'vue';
+import type { Ref, ComputedRef, WatchSource, MaybeRef } from 'vue';
 import type { AsyncData } from 'nuxt/app';
 
 export interface UseEnfyraApiSSRReturn<T> extends AsyncData<T | null, ApiError> {
@@ -105,19 +361,35 @@ export interface UseEnfyraApiSSRReturn<T> extends AsyncData<T | null, ApiError>
 interface BaseExecuteOptions {
   body?: any;
   id?: string | number;
-  query?: Record<string, any>;
+  query?: EnfyraQueryInput;
+  /** Override replaySafe for this specific execution */
+  replaySafe?: boolean;
+  /** Cancel this execution, in addition to the returned abort() */
+  signal?: AbortSignal;
+  /** Override the retry policy for this specific execution */
+  retry?: RetryConfig;
+  /** Ignore fresh cached data and go to the network */
+  force?: boolean;
+  /** Override request deduplication for this specific execution */
+  dedupe?: boolean;
+  /** Update cached responses before the server answers; rolled back if the request fails */
+  optimistic?: OptimisticUpdate;
 }
 
 interface BatchExecuteOptions {
   ids?: (string | number)[];
   /** Array of FormData objects for batch upload */
   files?: FormData[];
+  /** Array of JSON bodies for batch POST (one record per request) */
+  bodies?: Record<string, any>[];
   /** Override batch size for this specific execution */
   batchSize?: number;
   /** Override concurrent limit for this specific execution */
   concurrent?: number;
   /** Override progress callback for this specific execution */
   onProgress?: (progress: BatchProgress) => void;
+  /** Override continueOnError for this specific execution */
+  continueOnError?: boolean;
 }
 
 type ConditionalExecuteOptions<T> = T extends { ids: any }
@@ -128,13 +400,354 @@ type ConditionalExecuteOptions<T> = T extends { ids: any }
 
 export type ExecuteOptions = BaseExecuteOptions & BatchExecuteOptions;
 
+export interface BatchItemResult<T = any> {
+  index: number;
+  /** The id, FormData or body this result belongs to */
+  item: string | number | FormData | Record<string, any>;
+  status: 'completed' | 'failed' | 'cancelled';
+  result?: T;
+  error?: ApiError;
+  retries?: number;
+}
+
+/** Per-item outcome of a batch executed with `continueOnError` */
+export interface BatchResult<T = any> {
+  items: BatchItemResult<T>[];
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  /** Whether abort() stopped the batch before every item ran */
+  aborted: boolean;
+}
+
 export interface UseEnfyraApiClientReturn<T> {
   data: Ref<T | null>;
   error: Ref<ApiError | null>;
   pending: Ref<boolean>;
-  execute: (executeOpts?: ExecuteOptions) => Promise<T | T[] | null>;
+  execute: (executeOpts?: ExecuteOptions) => Promise<T | T[] | BatchResult<T> | null>;
+  /** Cancel the running execution: in-flight requests are aborted and no new batch chunks start */
+  abort: () => void;
 }
 
+export interface UseEnfyraCacheReturn {
+  /** Mark matching entries stale; entries in use are refetched */
+  invalidate: (target: CacheInvalidation) => Promise<void>;
+  /** Update matching cached responses in place; returns a function that undoes the update */
+  update: (target: CacheInvalidation, updater: (data: any) => any) => () => void;
+  /** Drop every cached response */
+  clear: () => void;
+}
 
 export * from './auth';
+export * from './query';
+
+
+/** List response returned by Enfyra collection endpoints */
+export interface PaginatedResponse<T> {
+  data: T[];
+  meta?: {
+    totalCount?: number;
+    filterCount?: number;
+  };
+}
+
+export interface PaginatedOptions {
+  /** Records per page (default: 20) */
+  limit?: number;
+  /** First page to load (default: 1) */
+  initialPage?: number;
+  /** Filter, fields and sort - changing it resets to page 1 */
+  query?: MaybeRef<EnfyraQueryInput | null | undefined>;
+  /** Load with useFetch so the first page is server-rendered */
+  ssr?: boolean;
+  /** Unique key for useFetch caching (SSR mode only) */
+  key?: string;
+  /** Load the first page immediately in client mode (default: true) */
+  immediate?: boolean;
+  headers?: Record<string, string>;
+  errorContext?: string;
+  onError?: (error: ApiError, context?: string) => void;
+  retry?: RetryConfig;
+}
+
+export interface UseEnfyraPaginatedReturn<T> {
+  /** Records of the current page, or every loaded page after loadMore() */
+  items: Ref<T[]>;
+  page: Ref<number>;
+  limit: Ref<number>;
+  /** Number of records matching the query */
+  total: ComputedRef<number>;
+  pageCount: ComputedRef<number>;
+  hasNext: ComputedRef<boolean>;
+  hasPrev: ComputedRef<boolean>;
+  pending: Ref<boolean>;
+  error: Ref<ApiError | null>;
+  next: () => Promise<void>;
+  prev: () => Promise<void>;
+  goTo: (page: number) => Promise<void>;
+  /** Load the next page and append it to `items` */
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export interface ResourceOptions {
+  /** Default query for list() and get(), e.g. fields */
+  query?: EnfyraQueryInput;
+  /** Primary key field used by get() and to sync `items` (default: 'id') */
+  primaryKey?: string;
+  headers?: Record<string, string>;
+  errorContext?: string;
+  onError?: (error: ApiError, context?: string) => void;
+  retry?: RetryConfig;
+  /** Batch settings for createMany / updateMany / removeMany */
+  batchSize?: number;
+  concurrent?: number;
+  continueOnError?: boolean;
+  onProgress?: (progress: BatchProgress) => void;
+  /** Apply update / remove to `items` before the server answers (default: false) */
+  optimistic?: boolean;
+}
+
+export interface ResourceMutationOptions {
+  /** Override the resource-level optimistic setting */
+  optimistic?: boolean;
+}
+
+export interface ResourceBatchOptions extends ResourceMutationOptions {
+  batchSize?: number;
+  concurrent?: number;
+  continueOnError?: boolean;
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface UseEnfyraResourceReturn<T> {
+  /** Records loaded by list(), kept in sync by create/update/remove */
+  items: Ref<T[]>;
+  /** Record loaded by get() */
+  item: Ref<T | null>;
+  meta: Ref<PaginatedResponse<T>['meta'] | null>;
+  /** True while any operation of this resource is running */
+  pending: ComputedRef<boolean>;
+  /** Error of the last operation, cleared when the next one starts */
+  error: Ref<ApiError | null>;
+  list: (query?: EnfyraQueryInput) => Promise<T[] | null>;
+  get: (id: string | number, query?: EnfyraQueryInput) => Promise<T | null>;
+  create: (body: Partial<T>) => Promise<T | null>;
+  update: (
+    id: string | number,
+    body: Partial<T>,
+    options?: ResourceMutationOptions
+  ) => Promise<T | null>;
+  remove: (
+    id: string | number,
+    options?: ResourceMutationOptions
+  ) => Promise<boolean>;
+  createMany: (
+    bodies: Partial<T>[],
+    options?: Omit<ResourceBatchOptions, 'optimistic'>
+  ) => Promise<T[] | BatchResult<T> | null>;
+  updateMany: (
+    ids: (string | number)[],
+    body: Partial<T>,
+    options?: ResourceBatchOptions
+  ) => Promise<T[] | BatchResult<T> | null>;
+  removeMany: (
+    ids: (string | number)[],
+    options?: ResourceBatchOptions
+  ) => Promise<T[] | BatchResult<T> | null>;
+  /** Cancel running operations */
+  abort: () => void;
+}
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  isNullable: boolean;
+  isPrimary: boolean;
+  options?: (string | number)[];
+}
+
+export interface SchemaRelation {
+  propertyName: string;
+  type: 'many-to-one' | 'one-to-one' | 'one-to-many' | 'many-to-many' | string;
+  targetTable?: string;
+}
+
+export interface SchemaTable {
+  name: string;
+  columns: SchemaColumn[];
+  relations: SchemaRelation[];
+}
+
+/** Table metadata snapshot used for type generation */
+export interface EnfyraSchemaSnapshot {
+  generatedAt?: string;
+  tables: SchemaTable[];
+}
+
+/**
+ * Path to record type map, filled in by the generated `.nuxt/types/enfyra.d.ts`
+ */
+export interface EnfyraPathTypes {}
+
+export type EnfyraPath = keyof EnfyraPathTypes & string;
+
+export type RealtimeEventType = 'create' | 'update' | 'delete';
+
+/** Record change pushed by the realtime stream */
+export interface RealtimeEvent<T = any> {
+  type: RealtimeEventType;
+  /** Table path the event belongs to, e.g. '/posts' */
+  path?: string;
+  /** Primary key of the changed record */
+  id?: string | number;
+  /** The record after the change (create / update) */
+  data?: T;
+}
+
+export interface RealtimeReconnectOptions {
+  /** Initial delay in ms (default: 1000) */
+  delay?: number;
+  /** Upper bound for the backoff delay in ms (default: 30000) */
+  maxDelay?: number;
+  /** Give up after this many consecutive failures (default: unlimited) */
+  attempts?: number;
+}
+
+export interface RealtimeOptions<T = any> {
+  /** Only receive events for records matching this filter */
+  filter?: MaybeRef<Record<string, any> | undefined>;
+  /** Event types to handle (default: all) */
+  events?: RealtimeEventType[];
+  /** Refs patched in place: arrays of records or `{ data: [...] }` responses */
+  sync?: Ref<any> | Ref<any>[];
+  /** Primary key used to patch `sync` refs (default: 'id') */
+  primaryKey?: string;
+  /** Connect when created on the client (default: true) */
+  immediate?: boolean;
+  /** Reconnect with exponential backoff, `false` to disable */
+  reconnect?: RealtimeReconnectOptions | false;
+  onEvent?: (event: RealtimeEvent<T>) => void;
+  onError?: (error: ApiError) => void;
+}
+
+export interface UseEnfyraRealtimeReturn<T = any> {
+  status: Ref<'idle' | 'connecting' | 'open' | 'closed'>;
+  lastEvent: Ref<RealtimeEvent<T> | null>;
+  error: Ref<ApiError | null>;
+  connect: () => void;
+  disconnect: () => void;
+}
+
+export type UploadStatus = 'pending' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadFileState<T = any> {
+  index: number;
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** Bytes sent so far */
+  loaded: number;
+  /** Percentage (0-100) */
+  progress: number;
+  status: UploadStatus;
+  result?: T;
+  error?: ApiError;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  /** Percentage of all bytes (0-100) */
+  progress: number;
+  completed: number;
+  failed: number;
+}
+
+export interface UploadOptions {
+  method?: 'post' | 'patch' | 'POST' | 'PATCH';
+  /** Form field used for `File` inputs (default: 'file') */
+  fieldName?: string;
+  /** Extra form fields sent with every `File` input */
+  fields?: Record<string, string>;
+  /** Upload files in chunks that resume after a network drop; `true` uses 5 MB chunks */
+  chunked?: boolean | { chunkSize?: number };
+  batchSize?: number;
+  concurrent?: number;
+  /** Retry policy, used per chunk in chunked mode */
+  retry?: RetryConfig;
+  /** Allow replaying an upload after a 401 triggers a token refresh */
+  replaySafe?: boolean;
+  headers?: Record<string, string>;
+  query?: EnfyraQueryInput;
+  errorContext?: string;
+  onError?: (error: ApiError, context?: string) => void;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UseEnfyraUploadReturn<T = any> {
+  files: Ref<UploadFileState<T>[]>;
+  progress: ComputedRef<UploadProgress>;
+  pending: Ref<boolean>;
+  /** Summary error when any file failed */
+  error: Ref<ApiError | null>;
+  /** Upload files, replacing the current list */
+  upload: (files: (File | FormData)[]) => Promise<BatchResult<T>>;
+  /** Cancel one file, or every unfinished file */
+  cancel: (index?: number) => void;
+  /** Upload failed or cancelled files again; chunked uploads continue from the last chunk */
+  resume: (index?: number) => Promise<BatchResult<T>>;
+}
+
+/** File record as stored in Enfyra's file table */
+export interface EnfyraFileRecord {
+  id: string | number;
+  filename?: string;
+  mimetype?: string;
+  filesize?: number;
+  [key: string]: any;
+}
+
+/** File id, file record, or an asset path / absolute URL */
+export type AssetSource = string | number | EnfyraFileRecord;
 
+export interface AssetTransformOptions {
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+  format?: 'webp' | 'avif' | 'jpeg' | 'png' | 'gif';
+  /** 1-100 */
+  quality?: number;
+  /** Ask the backend to send the file as an attachment */
+  download?: boolean;
+}
+
+export interface UseEnfyraAssetReturn {
+  /** Proxied URL for a file, with optional image transforms */
+  url: (source: AssetSource, options?: AssetTransformOptions) => string;
+  /** `srcset` with one transformed URL per width */
+  srcset: (
+    source: AssetSource,
+    widths: number[],
+    options?: Omit<AssetTransformOptions, 'width'>
+  ) => string;
+}
+
+export interface ServerRequestOptions {
+  query?: EnfyraQueryInput;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/** Enfyra client bound to the user of one Nitro request */
+export interface EnfyraServerClient {
+  request: <T = any>(
+    path: string,
+    options?: ServerRequestOptions & { method?: string; body?: any }
+  ) => Promise<T>;
+  get: <T = any>(path: string, options?: ServerRequestOptions) => Promise<T>;
+  post: <T = any>(path: string, body?: any, options?: ServerRequestOptions) => Promise<T>;
+  patch: <T = any>(path: string, body?: any, options?: ServerRequestOptions) => Promise<T>;
+  delete: <T = any>(path: string, options?: ServerRequestOptions) => Promise<T>;
+}
@@ -11,14 +11,45 @@ declare module '#imports' {
         apiPrefix?: string;
         configError?: boolean;
         configErrorMessage?: string;
+        redirects?: import('./index').EnfyraRedirectConfig;
+        retry?: import('./index').RetryConfig;
+        session?: import('./index').EnfyraSessionConfig;
+        csrf?: false | { cookieName: string };
       };
     };
+    enfyraSDK?: {
+      cookie?: import('./index').EnfyraCookieConfig;
+      realtime?: import('./index').EnfyraRealtimeConfig;
+      assets?: import('./index').EnfyraAssetsConfig;
+      serviceAccount?: import('./index').EnfyraServiceAccountConfig;
+      proxy?: import('./index').EnfyraProxyConfig;
+      authRoutes?: string[];
+      ssrUser?: import('./index').EnfyraSSRUserConfig;
+      oauth?: Record<string, import('./index').EnfyraOAuthProviderConfig>;
+      csrf?: false | import('./index').EnfyraCsrfConfig;
+    };
     [key: string]: any;
   };
   
   export const useRequestHeaders: (headers?: string[]) => Record<string, string | undefined>;
   
   export const useRequestURL: () => URL;
+
+  export const useRequestEvent: () => import('h3').H3Event | undefined;
+
+  export const useState: <T>(key: string, init?: () => T) => import('vue').Ref<T>;
+
+  export const tryUseNuxtApp: () => {
+    callHook: (name: string, ...args: any[]) => Promise<any>;
+    hook: (name: string, callback: (...args: any[]) => any) => () => void;
+    runWithContext: <T>(fn: () => T) => T;
+    $config: ReturnType<typeof useRuntimeConfig>;
+    ssrContext?: { event: import('h3').H3Event };
+  } | null;
+
+  export const useRouter: () => {
+    currentRoute: import('vue').Ref<{ query: Record<string, any> }>;
+  };
   
   export const useFetch: <T = any>(
     url: string | (() => string),
@@ -26,7 +57,24 @@ declare module '#imports' {
   ) => any;
   
   export const defineNuxtPlugin: (plugin: any) => any;
+
+  export const defineNuxtRouteMiddleware: (
+    middleware: (to: any, from: any) => any
+  ) => any;
+
+  export const navigateTo: (to: any, options?: any) => any;
+
+  export const abortNavigation: (err?: string | {
+    statusCode?: number;
+    statusMessage?: string;
+  }) => boolean;
   
+  export const useNitroApp: () => {
+    hooks: {
+      callHook: (name: string, ...args: any[]) => Promise<any>;
+    };
+  };
+
   export const defineCachedEventHandler: (handler: any, options?: any) => any;
   
   export const getCookie: (event: any, name: string) => string | undefined;
@@ -41,4 +89,12 @@ declare module '#imports' {
     message?: string;
     data?: any;
   }) => Error;
-}
\ No newline at end of file
+}
+
+declare module '#internal/nitro' {
+  export const useNitroApp: () => {
+    hooks: {
+      callHook: (name: string, ...args: any[]) => Promise<any>;
+    };
+  };
+}
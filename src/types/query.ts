@@ -0,0 +1,110 @@
+type Primitive = string | number | boolean | bigint | symbol | null | undefined | Date;
+
+type Depth = [never, 0, 1, 2, 3];
+
+/**
+ * Dot-notation paths into a record, following relations up to three levels deep
+ * e.g. 'title' | 'author' | 'author.name'
+ */
+export type FieldPath<T, D extends number = 3> = [D] extends [never]
+  ? never
+  : T extends Primitive
+  ? never
+  : T extends readonly (infer U)[]
+  ? FieldPath<U, D>
+  : {
+      [K in keyof T & string]: NonNullable<T[K]> extends Primitive
+        ? K
+        : K | `${K}.${FieldPath<NonNullable<T[K]>, Depth[D]>}`;
+    }[keyof T & string];
+
+/** Resolves the value type at a dot-notation path */
+export type PathValue<T, P extends string> = T extends readonly (infer U)[]
+  ? PathValue<U, P>
+  : P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, Rest>
+    : never
+  : P extends keyof T
+  ? T[P]
+  : never;
+
+/** Paths accepted by `fields`, including `*` wildcards on the root and relations */
+export type FieldSelector<T> =
+  | FieldPath<T>
+  | '*'
+  | `${RelationPath<T>}.*`;
+
+type RelationPath<T> = {
+  [P in FieldPath<T>]: NonNullable<PathValue<T, P>> extends Primitive ? never : P;
+}[FieldPath<T>];
+
+/** Sort expression, prefixed with `-` for descending order */
+export type SortField<T> = FieldPath<T> | `-${FieldPath<T>}`;
+
+export type ComparisonOperator =
+  | '_eq'
+  | '_neq'
+  | '_gt'
+  | '_gte'
+  | '_lt'
+  | '_lte';
+
+export type ListOperator = '_in' | '_not_in';
+
+export type StringOperator = '_contains' | '_starts_with' | '_ends_with';
+
+export type FilterOperator =
+  | ComparisonOperator
+  | ListOperator
+  | StringOperator
+  | '_between'
+  | '_is_null';
+
+/** Value expected by a given operator for a field of type V */
+export type OperatorValue<O extends FilterOperator, V> = O extends ListOperator
+  ? NonNullable<V>[]
+  : O extends '_between'
+  ? [NonNullable<V>, NonNullable<V>]
+  : O extends '_is_null'
+  ? boolean
+  : O extends StringOperator
+  ? string
+  : NonNullable<V>;
+
+export type FieldCondition<V> = {
+  [O in FilterOperator]?: OperatorValue<O, V>;
+};
+
+/** Enfyra filter object, nested by relation with `_and` / `_or` / `_not` groups */
+export type EnfyraFilter<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends Primitive
+    ? FieldCondition<T[K]>
+    : NonNullable<T[K]> extends readonly (infer U)[]
+    ? EnfyraFilter<U>
+    : EnfyraFilter<NonNullable<T[K]>>;
+} & {
+  _and?: EnfyraFilter<T>[];
+  _or?: EnfyraFilter<T>[];
+  _not?: EnfyraFilter<T>;
+};
+
+export type MetaField = 'totalCount' | 'filterCount' | '*';
+
+/** Plain query object understood by the Enfyra REST API */
+export interface EnfyraQuery {
+  filter?: Record<string, any>;
+  fields?: string | string[];
+  sort?: string | string[];
+  page?: number;
+  limit?: number;
+  meta?: MetaField | MetaField[];
+  [key: string]: any;
+}
+
+/** Anything that can produce an Enfyra query, such as `enfyraQuery()` */
+export interface EnfyraQueryLike {
+  toQuery(): EnfyraQuery;
+}
+
+export type EnfyraQueryInput = EnfyraQuery | EnfyraQueryLike;
@@ -0,0 +1,52 @@
+import type { AssetSource, AssetTransformOptions } from "../types";
+import { ASSETS_ROUTE } from "../constants/assets";
+
+function getAssetPath(source: AssetSource): string {
+  if (typeof source === "object") {
+    return `${ASSETS_ROUTE}/${encodeURIComponent(String(source.id))}`;
+  }
+
+  const value = String(source);
+  // Paths and absolute URLs are used as they are, anything else is a file id
+  if (value.startsWith("/") || /^[a-z][a-z\d+.-]*:/i.test(value)) {
+    return value;
+  }
+  return `${ASSETS_ROUTE}/${encodeURIComponent(value)}`;
+}
+
+/**
+ * Build the proxied URL of a file, with image transform query parameters
+ */
+export function getAssetUrl(
+  source: AssetSource,
+  options: AssetTransformOptions = {}
+): string {
+  const params = new URLSearchParams();
+
+  if (options.width) params.set("width", String(Math.round(options.width)));
+  if (options.height) params.set("height", String(Math.round(options.height)));
+  if (options.fit) params.set("fit", options.fit);
+  if (options.format) params.set("format", options.format);
+  if (options.quality) {
+    params.set(
+      "quality",
+      String(Math.min(100, Math.max(1, Math.round(options.quality))))
+    );
+  }
+  if (options.download) params.set("download", "true");
+
+  const path = getAssetPath(source);
+  const query = params.toString();
+  if (!query) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+}
+
+export function getAssetSrcset(
+  source: AssetSource,
+  widths: number[],
+  options: Omit<AssetTransformOptions, "width"> = {}
+): string {
+  return widths
+    .map((width) => `${getAssetUrl(source, { ...options, width })} ${Math.round(width)}w`)
+    .join(", ");
+}
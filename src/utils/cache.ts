@@ -0,0 +1,232 @@
+import { serializeQuery } from "./query";
+import type { CacheInvalidation, CacheOptions } from "../types";
+import type { EnfyraQueryInput } from "../types/query";
+
+const DEFAULT_CACHE: Required<CacheOptions> = {
+  staleTime: 0,
+  cacheTime: 5 * 60 * 1000,
+  tags: [],
+  revalidateOnFocus: true,
+  revalidateOnReconnect: true,
+};
+
+interface CacheEntry {
+  path: string;
+  tags: Set<string>;
+  options: Required<CacheOptions>;
+  data?: any;
+  /** 0 marks the entry as stale */
+  updatedAt: number;
+  fetcher?: () => Promise<any>;
+  pending: Promise<any> | null;
+  listeners: Set<(data: any) => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const entries = new Map<string, CacheEntry>();
+let listening = false;
+
+export function resolveCacheOptions(
+  cache?: boolean | CacheOptions
+): Required<CacheOptions> | null {
+  if (!cache) return null;
+  return { ...DEFAULT_CACHE, ...(cache === true ? {} : cache) };
+}
+
+/**
+ * Cache key for a request path and its serialized query
+ */
+export function getCacheKey(path: string, query?: EnfyraQueryInput): string {
+  const params = serializeQuery(query);
+  const sorted = Object.keys(params)
+    .sort()
+    .map((key) => [key, params[key]]);
+  return `${path}?${JSON.stringify(sorted)}`;
+}
+
+function scheduleGc(key: string, entry: CacheEntry) {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entries.get(key) === entry && entry.listeners.size === 0) {
+      entries.delete(key);
+    }
+  }, entry.options.cacheTime);
+}
+
+export function getCacheEntry(
+  key: string,
+  path: string,
+  options: Required<CacheOptions>
+): CacheEntry {
+  installRevalidationListeners();
+
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = {
+      path,
+      tags: new Set(),
+      options,
+      updatedAt: 0,
+      pending: null,
+      listeners: new Set(),
+    };
+    entries.set(key, entry);
+    scheduleGc(key, entry);
+  }
+
+  entry.options = options;
+  options.tags.forEach((tag) => entry!.tags.add(tag));
+  return entry;
+}
+
+export function isFresh(entry: CacheEntry): boolean {
+  return (
+    entry.updatedAt > 0 &&
+    Date.now() - entry.updatedAt < entry.options.staleTime
+  );
+}
+
+function notify(entry: CacheEntry) {
+  entry.listeners.forEach((listener) => listener(entry.data));
+}
+
+export function setCacheData(entry: CacheEntry, data: any) {
+  entry.data = data;
+  entry.updatedAt = Date.now();
+  notify(entry);
+}
+
+/**
+ * Refetch an entry and push the result to every subscriber.
+ * Concurrent revalidations of the same entry share one request.
+ */
+export function revalidateEntry(
+  entry: CacheEntry,
+  fetcher = entry.fetcher
+): Promise<any> {
+  if (entry.pending) return entry.pending;
+  if (!fetcher) return Promise.resolve(entry.data);
+
+  entry.pending = fetcher()
+    .then((data) => {
+      setCacheData(entry, data);
+      return data;
+    })
+    .finally(() => {
+      entry.pending = null;
+    });
+  return entry.pending;
+}
+
+/**
+ * Receive updates of an entry; the entry is dropped `cacheTime` after its last subscriber leaves
+ */
+export function subscribeCacheEntry(
+  key: string,
+  entry: CacheEntry,
+  listener: (data: any) => void
+): () => void {
+  clearTimeout(entry.gcTimer);
+  entry.listeners.add(listener);
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      scheduleGc(key, entry);
+    }
+  };
+}
+
+function matchesPath(entryPath: string, path: string): boolean {
+  const normalized = path.replace(/^\/+|\/+$/g, "");
+  return entryPath === normalized || entryPath.startsWith(`${normalized}/`);
+}
+
+function matchesTarget(entry: CacheEntry, target: CacheInvalidation): boolean {
+  return (
+    (target.tags || []).some((tag) => entry.tags.has(tag)) ||
+    (target.paths || []).some((path) => matchesPath(entry.path, path))
+  );
+}
+
+/**
+ * Mark entries matching a tag or path (including sub-paths) as stale.
+ * Entries in use are refetched, unused ones are dropped.
+ */
+export async function invalidateCache(target: CacheInvalidation) {
+  const revalidations: Promise<any>[] = [];
+
+  entries.forEach((entry, key) => {
+    if (!matchesTarget(entry, target)) return;
+
+    entry.updatedAt = 0;
+    if (entry.listeners.size > 0) {
+      revalidations.push(revalidateEntry(entry).catch(() => undefined));
+    } else {
+      clearTimeout(entry.gcTimer);
+      entries.delete(key);
+    }
+  });
+
+  await Promise.all(revalidations);
+}
+
+/**
+ * Replace the data of matching entries without touching their freshness.
+ * The returned function restores entries that still hold the updated value.
+ */
+export function updateCacheData(
+  target: CacheInvalidation,
+  updater: (data: any) => any
+): () => void {
+  const updated: { entry: CacheEntry; previous: any; next: any }[] = [];
+
+  entries.forEach((entry) => {
+    if (entry.data === undefined || !matchesTarget(entry, target)) return;
+
+    const next = updater(entry.data);
+    updated.push({ entry, previous: entry.data, next });
+    entry.data = next;
+    notify(entry);
+  });
+
+  return () => {
+    updated.forEach(({ entry, previous, next }) => {
+      // A refetch since the update already replaced it with server data
+      if (entry.data === next) {
+        entry.data = previous;
+        notify(entry);
+      }
+    });
+  };
+}
+
+export function clearCache() {
+  entries.forEach((entry) => clearTimeout(entry.gcTimer));
+  entries.clear();
+}
+
+function revalidateActive(
+  flag: "revalidateOnFocus" | "revalidateOnReconnect"
+) {
+  entries.forEach((entry) => {
+    if (entry.listeners.size > 0 && entry.options[flag] && !isFresh(entry)) {
+      revalidateEntry(entry).catch(() => undefined);
+    }
+  });
+}
+
+function installRevalidationListeners() {
+  if (listening || typeof window === "undefined") return;
+  listening = true;
+
+  window.addEventListener("focus", () => revalidateActive("revalidateOnFocus"));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      revalidateActive("revalidateOnFocus");
+    }
+  });
+  window.addEventListener("online", () =>
+    revalidateActive("revalidateOnReconnect")
+  );
+}
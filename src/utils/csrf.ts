@@ -0,0 +1,77 @@
+import { tryUseNuxtApp } from "#imports";
+import { CSRF_ROUTE, CSRF_HEADER, CSRF_SAFE_METHODS } from "../constants/csrf";
+
+let pendingToken: Promise<void> | null = null;
+
+function getCookieName(): string | null {
+  const csrf = tryUseNuxtApp()?.$config.public.enfyraSDK?.csrf;
+  return csrf ? csrf.cookieName : null;
+}
+
+function readCookie(name: string): string | undefined {
+  const entry = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${name}=`));
+  return entry && decodeURIComponent(entry.slice(name.length + 1));
+}
+
+export function isCsrfSafeMethod(method: string): boolean {
+  return CSRF_SAFE_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Add the CSRF header to a request to the SDK routes. During SSR the token
+ * comes from the incoming request, and its cookie is added when it was only
+ * issued by this request.
+ */
+export function withCsrfToken(
+  headers: Record<string, string>
+): Record<string, string> {
+  const name = getCookieName();
+  if (!name) return headers;
+
+  if (process.client) {
+    const token = readCookie(name);
+    return token ? { ...headers, [CSRF_HEADER]: token } : headers;
+  }
+
+  const token: string | undefined =
+    tryUseNuxtApp()?.ssrContext?.event.context.enfyraCsrfToken;
+  if (!token) return headers;
+
+  const cookieKey =
+    Object.keys(headers).find((key) => key.toLowerCase() === "cookie") ||
+    "cookie";
+  const cookie = headers[cookieKey] || "";
+  return {
+    ...headers,
+    [CSRF_HEADER]: token,
+    ...(cookie.split("; ").some((entry) => entry.startsWith(`${name}=`))
+      ? {}
+      : { [cookieKey]: cookie ? `${cookie}; ${name}=${token}` : `${name}=${token}` }),
+  };
+}
+
+/**
+ * Make sure the browser has a CSRF cookie before a write. Apps served
+ * without a page render (static hosting) get it from the CSRF route once.
+ */
+export function ensureCsrfToken(baseURL: string): Promise<void> {
+  const name = getCookieName();
+  if (!process.client || !name || readCookie(name)) {
+    return Promise.resolve();
+  }
+
+  if (!pendingToken) {
+    const normalizedBaseURL = baseURL.endsWith("/") ? baseURL : `${baseURL}/`;
+    pendingToken = fetch(new URL(CSRF_ROUTE.slice(1), normalizedBaseURL).toString(), {
+      headers: { accept: "application/json" },
+    })
+      .then(() => undefined)
+      .catch(() => undefined)
+      .finally(() => {
+        pendingToken = null;
+      });
+  }
+  return pendingToken;
+}
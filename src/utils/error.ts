@@ -0,0 +1,26 @@
+import type { ApiError } from "../types";
+
+export function toApiError(error: any): ApiError {
+  return {
+    message: error?.message || error?.data?.message || "Request failed",
+    status: error?.status || error?.response?.status,
+    data: error?.data || error?.response?.data,
+    response: error?.response || error,
+  };
+}
+
+export function handleError(
+  error: any,
+  context?: string,
+  customHandler?: (error: ApiError, context?: string) => void
+) {
+  const apiError = toApiError(error);
+
+  if (customHandler) {
+    customHandler(apiError, context);
+  } else {
+    console.error(`[Enfyra API Error]`, { error: apiError, context });
+  }
+
+  return apiError;
+}
@@ -0,0 +1,20 @@
+import { tryUseNuxtApp } from "#imports";
+import type { EnfyraAuthHooks } from "../types/auth";
+
+/**
+ * Call an auth hook on the Nuxt app. A failing hook is logged, it never
+ * breaks the auth flow that triggered it.
+ */
+export async function callAuthHook<K extends keyof EnfyraAuthHooks>(
+  name: K,
+  ...args: Parameters<EnfyraAuthHooks[K]>
+): Promise<void> {
+  const nuxtApp = tryUseNuxtApp();
+  if (!nuxtApp) return;
+
+  try {
+    await nuxtApp.callHook(name, ...args);
+  } catch (error) {
+    console.error(`[Enfyra SDK] ${name} hook failed:`, error);
+  }
+}
@@ -1,11 +1,134 @@
+import { serializeQuery } from "./query";
+import type { EnfyraQueryInput } from "../types/query";
+import { callAuthHook } from "./hooks";
+import {
+  AUTH_HOOKS,
+  LOGIN_ROUTE,
+  LOGOUT_ROUTE,
+  REFRESH_ROUTE,
+  REPLAY_SAFE_HEADER,
+  REPLAYABLE_METHODS,
+} from "../constants/auth";
+import { withCsrfToken, ensureCsrfToken, isCsrfSafeMethod } from "./csrf";
+
+const AUTH_ROUTES = [LOGIN_ROUTE, LOGOUT_ROUTE, REFRESH_ROUTE];
+
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Refresh the session cookies through the SDK refresh route.
+ * Concurrent 401s share a single refresh call. Browser only: during SSR the
+ * proxy refreshes per request, and this promise would be shared by all users.
+ */
+export function refreshSession(baseURL: string): Promise<boolean> {
+  if (!process.client) {
+    return Promise.resolve(false);
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = ensureCsrfToken(baseURL)
+      .then(() =>
+        fetch(new URL(REFRESH_ROUTE.slice(1), baseURL).toString(), {
+          method: "POST",
+          headers: withCsrfToken({}),
+        })
+      )
+      .then((response) => {
+        void callAuthHook(
+          response.ok ? AUTH_HOOKS.tokenRefreshed : AUTH_HOOKS.sessionExpired
+        );
+        return response.ok;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+interface InFlightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Join an identical request already in flight instead of sending another one.
+ * The shared request is only aborted once every caller has aborted.
+ */
+function joinInFlight<T>(
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  let shared = inFlightRequests.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const request: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: run(controller.signal).finally(() => {
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+      }),
+    };
+    inFlightRequests.set(key, request);
+    shared = request;
+  }
+
+  const request = shared;
+  request.subscribers++;
+  if (!signal) {
+    return request.promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      request.subscribers--;
+      if (request.subscribers === 0) {
+        request.controller.abort();
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+      }
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    request.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function getDedupeKey(url: string, headers: Record<string, string>): string {
+  const sorted = Object.keys(headers)
+    .map((name) => [name.toLowerCase(), headers[name]])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  return `${url} ${JSON.stringify(sorted)}`;
+}
+
 export async function $fetch<T = any>(
   path: string,
   options: {
     method?: string;
     body?: any;
     headers?: Record<string, string>;
-    query?: Record<string, any>;
+    query?: EnfyraQueryInput;
     baseURL?: string;
+    /** Allow replaying a non-idempotent request after a token refresh */
+    replaySafe?: boolean;
+    signal?: AbortSignal;
+    /** Join an identical GET already in flight (default: true) */
+    dedupe?: boolean;
   } = {}
 ): Promise<T> {
   const {
@@ -14,24 +137,20 @@ export async function $fetch<T = any>(
     headers: optionHeaders = {},
     query = {},
     baseURL,
+    replaySafe = false,
+    signal,
+    dedupe = true,
   } = options;
   if (!baseURL) {
     throw new Error('baseURL is required for $fetch');
   }
 
-  const url = new URL(
-    path.startsWith("/") ? path.slice(1) : path,
-    baseURL.endsWith("/") ? baseURL : `${baseURL}/`
-  );
+  const normalizedBaseURL = baseURL.endsWith("/") ? baseURL : `${baseURL}/`;
+  const normalizedPath = path.startsWith("/") ? path.slice(1) : path;
+  const url = new URL(normalizedPath, normalizedBaseURL);
 
-  Object.entries(query).forEach(([key, value]) => {
-    if (value !== undefined && value !== null) {
-      if (typeof value === 'object') {
-        url.searchParams.append(key, JSON.stringify(value));
-      } else {
-        url.searchParams.append(key, String(value));
-      }
-    }
+  Object.entries(serializeQuery(query)).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
   });
 
   const headers: Record<string, string> = {
@@ -39,31 +158,82 @@ export async function $fetch<T = any>(
     ...optionHeaders,
   };
 
-  const fetchOptions: RequestInit = {
-    method: method.toUpperCase(),
-    headers,
-  };
+  if (replaySafe) {
+    headers[REPLAY_SAFE_HEADER] = "1";
+  }
 
-  if (body && method.toUpperCase() !== "GET") {
-    if (body instanceof FormData) {
-      delete headers["Content-Type"]; // Let browser set boundary for FormData
-      fetchOptions.body = body;
-    } else {
-      fetchOptions.body = JSON.stringify(body);
+  // During SSR the token comes from the Nuxt context, read it before any await
+  if (!isCsrfSafeMethod(method)) {
+    if (process.client) {
+      await ensureCsrfToken(normalizedBaseURL);
     }
+    Object.assign(headers, withCsrfToken(headers));
   }
 
-  try {
-    const response = await fetch(url.toString(), fetchOptions);
+  const isAuthRoute = AUTH_ROUTES.includes(`/${normalizedPath}`);
+  const canReplay =
+    (replaySafe || REPLAYABLE_METHODS.includes(method.toUpperCase())) &&
+    !isAuthRoute;
+  // Login answers 401 for wrong credentials, that is not a rejected session
+  const onUnauthorized = () => {
+    if (!isAuthRoute) {
+      void callAuthHook(AUTH_HOOKS.unauthorized, {
+        url: url.toString(),
+        method: method.toUpperCase(),
+      });
+    }
+  };
+
+  const send = async (requestSignal?: AbortSignal): Promise<T> => {
+    const fetchOptions: RequestInit = {
+      method: method.toUpperCase(),
+      headers,
+      signal: requestSignal,
+    };
+
+    if (body && method.toUpperCase() !== "GET") {
+      if (body instanceof FormData) {
+        delete headers["Content-Type"]; // Let browser set boundary for FormData
+        fetchOptions.body = body;
+      } else {
+        fetchOptions.body = JSON.stringify(body);
+      }
+    }
+
+    let response = await fetch(url.toString(), fetchOptions);
+
+    if (response.status === 401 && canReplay) {
+      const refreshed = await refreshSession(normalizedBaseURL);
+      if (!refreshed) {
+        onUnauthorized();
+        throw {
+          message: "Unauthorized",
+          response: {
+            status: 401,
+            data: { message: "Unauthorized", code: "UNAUTHORIZED" },
+          },
+        };
+      }
+      response = await fetch(url.toString(), fetchOptions);
+    }
 
     if (!response.ok) {
+      if (response.status === 401) {
+        onUnauthorized();
+      }
       let errorData;
       try {
         errorData = await response.json();
       } catch {
         errorData = { message: response.statusText };
       }
-      throw { response: { data: errorData } };
+      throw {
+        response: {
+          status: response.status,
+          data: errorData,
+          headers: response.headers,
+        },
+      };
     }
 
     const contentType = response.headers.get("content-type");
@@ -72,7 +242,12 @@ export async function $fetch<T = any>(
     } else {
       return (await response.text()) as T;
     }
-  } catch (error) {
-    throw error;
+  };
+
+  // Identical GETs share one request; headers carry the auth context into the key
+  if (dedupe && method.toUpperCase() === "GET") {
+    return joinInFlight(getDedupeKey(url.toString(), headers), send, signal);
   }
-}
\ No newline at end of file
+
+  return send(signal);
+}
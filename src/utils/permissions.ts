@@ -0,0 +1,64 @@
+import type { RoutePermission, RouteRequirement, User } from "../types/auth";
+
+function normalizeRoutePath(path: string): string {
+  const [pathname] = path.split("?");
+  return `/${pathname.replace(/^\/+|\/+$/g, "")}`;
+}
+
+/**
+ * Enabled route permissions granted to the user through their role or directly
+ */
+export function getUserPermissions(user: User | null): RoutePermission[] {
+  if (!user) {
+    return [];
+  }
+
+  return [
+    ...(user.role?.routePermissions || []),
+    ...(user.allowedRoutePermissions || []),
+  ].filter((permission) => permission.isEnabled);
+}
+
+/**
+ * Whether the user may call `method` on `path`. A permission on `/posts`
+ * also covers record paths such as `/posts/123`.
+ */
+export function hasRoutePermission(
+  user: User | null,
+  path: string,
+  method: string = "GET"
+): boolean {
+  if (!user) {
+    return false;
+  }
+  if (user.isRootAdmin) {
+    return true;
+  }
+
+  const target = normalizeRoutePath(path);
+  const upperMethod = method.toUpperCase();
+
+  return getUserPermissions(user).some((permission) => {
+    const route = normalizeRoutePath(permission.route.path);
+    const matchesPath =
+      target === route || (route !== "/" && target.startsWith(`${route}/`));
+
+    return (
+      matchesPath &&
+      permission.methods.some((m) => m.method.toUpperCase() === upperMethod)
+    );
+  });
+}
+
+export function meetsRequirements(
+  user: User | null,
+  requirements: RouteRequirement | RouteRequirement[]
+): boolean {
+  const list = Array.isArray(requirements) ? requirements : [requirements];
+
+  return list.every((requirement) =>
+    typeof requirement === "string"
+      ? hasRoutePermission(user, requirement)
+      : hasRoutePermission(user, requirement.path, requirement.method)
+  );
+}
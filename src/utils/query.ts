@@ -0,0 +1,161 @@
+import { unref, type MaybeRef } from "vue";
+import type {
+  EnfyraFilter,
+  EnfyraQuery,
+  EnfyraQueryInput,
+  EnfyraQueryLike,
+  FieldPath,
+  FieldSelector,
+  FilterOperator,
+  MetaField,
+  OperatorValue,
+  PathValue,
+  SortField,
+} from "../types/query";
+
+/**
+ * Keys whose array values Enfyra expects as comma-separated lists
+ */
+const LIST_KEYS = ["fields", "sort", "meta"];
+
+interface QueryState {
+  conditions: Record<string, any>[];
+  fields?: string[];
+  sort?: string[];
+  page?: number;
+  limit?: number;
+  meta?: MetaField[];
+}
+
+export class EnfyraQueryBuilder<T = any> implements EnfyraQueryLike {
+  private readonly state: QueryState;
+
+  constructor(state: QueryState = { conditions: [] }) {
+    this.state = state;
+  }
+
+  private with(patch: Partial<QueryState>) {
+    return new EnfyraQueryBuilder<T>({ ...this.state, ...patch });
+  }
+
+  /** Add a condition on a field, e.g. `.where('author.name', '_eq', 'Jane')` */
+  where<P extends FieldPath<T>, O extends FilterOperator>(
+    field: P,
+    operator: O,
+    value: OperatorValue<O, PathValue<T, P>>
+  ): EnfyraQueryBuilder<T> {
+    const condition = field
+      .split(".")
+      .reduceRight<Record<string, any>>(
+        (inner, key) => ({ [key]: inner }),
+        { [operator]: value }
+      );
+    return this.with({ conditions: [...this.state.conditions, condition] });
+  }
+
+  /** Add a raw filter object, combined with other conditions using `_and` */
+  filter(filter: EnfyraFilter<T>): EnfyraQueryBuilder<T> {
+    return this.with({ conditions: [...this.state.conditions, filter] });
+  }
+
+  /** Match any of the filters built by the given callbacks */
+  orWhere(
+    ...groups: ((q: EnfyraQueryBuilder<T>) => EnfyraQueryBuilder<T>)[]
+  ): EnfyraQueryBuilder<T> {
+    const _or = groups
+      .map((group) => group(new EnfyraQueryBuilder<T>()).toQuery().filter)
+      .filter(Boolean);
+    return this.with({ conditions: [...this.state.conditions, { _or }] });
+  }
+
+  fields(fields: FieldSelector<T>[]): EnfyraQueryBuilder<T> {
+    return this.with({ fields: [...(this.state.fields || []), ...fields] });
+  }
+
+  sort(...sort: SortField<T>[]): EnfyraQueryBuilder<T> {
+    return this.with({ sort: [...(this.state.sort || []), ...sort] });
+  }
+
+  page(page: number): EnfyraQueryBuilder<T> {
+    return this.with({ page });
+  }
+
+  limit(limit: number): EnfyraQueryBuilder<T> {
+    return this.with({ limit });
+  }
+
+  meta(...meta: MetaField[]): EnfyraQueryBuilder<T> {
+    return this.with({ meta: [...(this.state.meta || []), ...meta] });
+  }
+
+  toQuery(): EnfyraQuery {
+    const { conditions, fields, sort, page, limit, meta } = this.state;
+    const query: EnfyraQuery = {};
+
+    if (conditions.length === 1) {
+      query.filter = conditions[0];
+    } else if (conditions.length > 1) {
+      query.filter = { _and: conditions };
+    }
+    if (fields?.length) query.fields = fields;
+    if (sort?.length) query.sort = sort;
+    if (page !== undefined) query.page = page;
+    if (limit !== undefined) query.limit = limit;
+    if (meta?.length) query.meta = meta;
+
+    return query;
+  }
+}
+
+/**
+ * Create a typed, immutable query builder for Enfyra list endpoints
+ */
+export function enfyraQuery<T = any>(): EnfyraQueryBuilder<T> {
+  return new EnfyraQueryBuilder<T>();
+}
+
+function isQueryLike(value: any): value is EnfyraQueryLike {
+  return !!value && typeof value.toQuery === "function";
+}
+
+/**
+ * Resolve a query input (plain object, builder or ref to either) into a
+ * plain Enfyra query object
+ */
+export function resolveQuery(
+  input?: MaybeRef<EnfyraQueryInput | null | undefined>
+): EnfyraQuery {
+  const raw = unref(input);
+  if (!raw) {
+    return {};
+  }
+
+  return isQueryLike(raw) ? raw.toQuery() : raw;
+}
+
+/**
+ * Convert a query input (plain object, builder or ref to either) into
+ * flat string search params. Used by both the SSR and client transports
+ * so a query always reaches the backend in the same shape.
+ */
+export function serializeQuery(
+  input?: MaybeRef<EnfyraQueryInput | null | undefined>
+): Record<string, string> {
+  const query = resolveQuery(input);
+  const params: Record<string, string> = {};
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (Array.isArray(value) && LIST_KEYS.includes(key)) {
+      params[key] = value.join(",");
+    } else if (typeof value === "object") {
+      params[key] = JSON.stringify(value);
+    } else {
+      params[key] = String(value);
+    }
+  });
+
+  return params;
+}
@@ -0,0 +1,6 @@
+/**
+ * Path on this origin, `//host` and `/\host` would leave the app
+ */
+export function isLocalPath(value: unknown): value is string {
+  return typeof value === "string" && /^\/(?![/\\])/.test(value);
+}
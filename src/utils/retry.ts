@@ -0,0 +1,138 @@
+import type { RetryConfig, RetryOptions } from "../types";
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  attempts: 3,
+  delay: 300,
+  factor: 2,
+  maxDelay: 10_000,
+  jitter: true,
+  statusCodes: [408, 429, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+function normalizeRetry(config?: RetryConfig): RetryOptions | undefined {
+  if (config === undefined) return undefined;
+  if (config === false) return { attempts: 0 };
+  if (config === true) return {};
+  if (typeof config === "number") return { attempts: config };
+  return config;
+}
+
+/**
+ * Merge retry settings from module, composable and execute level.
+ * Later levels win; retrying stays off unless one level enables it.
+ */
+export function resolveRetryOptions(
+  ...levels: (RetryConfig | undefined)[]
+): Required<RetryOptions> | null {
+  const normalized = levels.map(normalizeRetry).filter(Boolean) as RetryOptions[];
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  const merged = { ...DEFAULT_RETRY, ...Object.assign({}, ...normalized) };
+  return merged.attempts > 0 ? merged : null;
+}
+
+/**
+ * Delay requested by a Retry-After header, in milliseconds
+ */
+function getRetryAfter(error: any): number | undefined {
+  const headers = error?.response?.headers;
+  const value: string | null | undefined =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryable(
+  error: any,
+  method: string,
+  options: Required<RetryOptions>
+): boolean {
+  if (error?.name === "AbortError") {
+    return false;
+  }
+  if (!options.methods.map((m) => m.toUpperCase()).includes(method.toUpperCase())) {
+    return false;
+  }
+
+  const status = error?.response?.status ?? error?.status;
+  // Network failures have no status and are always worth another try
+  return status === undefined || options.statusCodes.includes(status);
+}
+
+function getBackoff(attempt: number, options: Required<RetryOptions>): number {
+  const backoff = Math.min(
+    options.maxDelay,
+    options.delay * Math.pow(options.factor, attempt)
+  );
+  return options.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request, retrying transient failures with exponential backoff.
+ * A Retry-After header from the server takes precedence over the backoff,
+ * up to `maxDelay`.
+ */
+export async function withRetry<R>(
+  request: () => Promise<R>,
+  options: {
+    method: string;
+    retry: Required<RetryOptions> | null;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, error: any) => void;
+  }
+): Promise<R> {
+  const { method, retry, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!retry || attempt >= retry.attempts || !isRetryable(error, method, retry)) {
+        throw error;
+      }
+
+      // A server asking for a longer pause than maxDelay fails the request
+      // instead of stalling the caller
+      const retryAfter = getRetryAfter(error);
+      if (retryAfter !== undefined && retryAfter > retry.maxDelay) {
+        throw error;
+      }
+
+      const wait = retryAfter ?? getBackoff(attempt, retry);
+      onRetry?.(attempt + 1, error);
+      await sleep(wait, signal);
+    }
+  }
+}
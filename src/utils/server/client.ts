@@ -0,0 +1,134 @@
+import { createError, type H3Event } from "h3";
+import { $fetch } from "ofetch";
+import { useRuntimeConfig } from "#imports";
+import type {
+  EnfyraServerClient,
+  ServerRequestOptions,
+} from "../../types";
+import { serializeQuery } from "../query";
+import {
+  refreshAccessToken,
+  getRefreshToken,
+  resolveAuthHeaders,
+} from "./refreshToken";
+
+export interface ServerClientAuth {
+  /** Auth headers sent with every request */
+  headers: () => Record<string, string> | Promise<Record<string, string>>;
+  /** Renew the credentials after a `401`, false when they cannot be renewed */
+  renew: () => Promise<boolean>;
+}
+
+/**
+ * Turn a backend error into an h3 error that Nitro routes can throw as is
+ */
+function toServerError(err: any) {
+  const statusCode = err?.response?.status || err?.statusCode || 502;
+  const errorData = err?.response?._data || err?.data;
+
+  return createError({
+    statusCode,
+    statusMessage:
+      errorData?.error?.message ||
+      errorData?.message ||
+      (statusCode === 502 ? "Enfyra API unavailable" : "Enfyra API error"),
+    data: {
+      code: errorData?.error?.code || errorData?.code,
+      details: errorData?.error?.details,
+      correlationId: errorData?.error?.correlationId,
+    },
+  });
+}
+
+/**
+ * Enfyra client that replays a request once after renewing rejected
+ * credentials, and throws backend errors as h3 errors
+ */
+export function createServerClient(
+  apiUrl: string,
+  auth: ServerClientAuth
+): EnfyraServerClient {
+  const send = async <T>(
+    path: string,
+    options: ServerRequestOptions & { method?: string; body?: any }
+  ) =>
+    $fetch<T>(`/${path.replace(/^\/+/, "")}`, {
+      baseURL: apiUrl,
+      method: (options.method || "GET").toUpperCase() as any,
+      body: options.body,
+      query: serializeQuery(options.query),
+      signal: options.signal,
+      headers: {
+        ...options.headers,
+        ...(await auth.headers()),
+      },
+    });
+
+  const request = async <T = any>(
+    path: string,
+    options: ServerRequestOptions & { method?: string; body?: any } = {}
+  ): Promise<T> => {
+    try {
+      return await send<T>(path, options);
+    } catch (err: any) {
+      if (err?.response?.status !== 401) {
+        throw toServerError(err);
+      }
+
+      // The backend rejected the credentials, replay once with renewed ones
+      if (!(await auth.renew())) {
+        throw createError({
+          statusCode: 401,
+          statusMessage: "Unauthorized",
+          data: { code: "UNAUTHORIZED" },
+        });
+      }
+
+      try {
+        return await send<T>(path, options);
+      } catch (retryErr) {
+        throw toServerError(retryErr);
+      }
+    }
+  };
+
+  return {
+    request,
+    get: (path, options) => request(path, { ...options, method: "GET" }),
+    post: (path, body, options) =>
+      request(path, { ...options, method: "POST", body }),
+    patch: (path, body, options) =>
+      request(path, { ...options, method: "PATCH", body }),
+    delete: (path, options) => request(path, { ...options, method: "DELETE" }),
+  };
+}
+
+/**
+ * Enfyra client for server routes, authenticated as the user of `event`.
+ * Uses the access token from the auth cookies, refreshes the session once
+ * on `401`, and throws backend errors as h3 errors.
+ */
+export function useEnfyraServerClient(event: H3Event): EnfyraServerClient {
+  const apiUrl: string = useRuntimeConfig().public?.enfyraSDK?.apiUrl || "";
+
+  return createServerClient(apiUrl, {
+    headers: async () => {
+      // Routes outside the auth middleware's scope resolve the token here
+      await resolveAuthHeaders(event);
+      return { ...event.context.proxyHeaders };
+    },
+    renew: async () => {
+      const refreshToken = getRefreshToken(event);
+      if (!refreshToken || !apiUrl) return false;
+
+      try {
+        const accessToken = await refreshAccessToken(event, refreshToken, apiUrl);
+        event.context.proxyHeaders = event.context.proxyHeaders || {};
+        event.context.proxyHeaders.authorization = `Bearer ${accessToken}`;
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  });
+}
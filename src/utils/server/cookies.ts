@@ -0,0 +1,192 @@
+import { setCookie, getCookie, deleteCookie, type H3Event } from "h3";
+import { useRuntimeConfig } from "#imports";
+import type { EnfyraCookieConfig } from "../../types";
+import {
+  ACCESS_TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+  EXP_TIME_KEY,
+  REMEMBER_KEY,
+  DEFAULT_REFRESH_TOKEN_MAX_AGE,
+} from "../../constants/auth";
+import { OAUTH_STATE_COOKIE, OAUTH_STATE_MAX_AGE } from "../../constants/oauth";
+import { CSRF_COOKIE } from "../../constants/csrf";
+import { getTokenMaxAge } from "./jwt";
+
+export type AuthCookie = "accessToken" | "refreshToken" | "expTime" | "remember";
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expTime: number | string;
+}
+
+const DEFAULT_NAMES: Record<AuthCookie, string> = {
+  accessToken: ACCESS_TOKEN_KEY,
+  refreshToken: REFRESH_TOKEN_KEY,
+  expTime: EXP_TIME_KEY,
+  remember: REMEMBER_KEY,
+};
+
+function getCookieConfig(): EnfyraCookieConfig {
+  return useRuntimeConfig().enfyraSDK?.cookie || {};
+}
+
+export function getAuthCookieName(cookie: AuthCookie): string {
+  const { prefix = "", names } = getCookieConfig();
+  return `${prefix}${names?.[cookie] || DEFAULT_NAMES[cookie]}`;
+}
+
+function getBaseCookieOptions() {
+  const { domain, path = "/", sameSite = "lax", secure = true } =
+    getCookieConfig();
+
+  return {
+    httpOnly: true,
+    secure,
+    sameSite,
+    path,
+    domain,
+  };
+}
+
+export function getAuthCookie(
+  event: H3Event,
+  cookie: AuthCookie
+): string | undefined {
+  return getCookie(event, getAuthCookieName(cookie));
+}
+
+/**
+ * The backend's `expTime`, an epoch in seconds or milliseconds or a date
+ * string, in ms since epoch
+ */
+export function parseExpTime(
+  expTime: number | string | undefined
+): number | undefined {
+  const value =
+    typeof expTime === "string" && /^\d+$/.test(expTime)
+      ? Number(expTime)
+      : expTime;
+  const time =
+    typeof value === "number"
+      ? value < 1e12
+        ? value * 1000
+        : value
+      : value && Date.parse(value);
+  return time && Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Seconds until the backend's `expTime`
+ */
+function getExpTimeMaxAge(expTime: number | string): number | undefined {
+  const time = parseExpTime(expTime);
+  return time === undefined
+    ? undefined
+    : Math.max(0, Math.floor((time - Date.now()) / 1000));
+}
+
+/**
+ * Write the auth cookies for a freshly issued token pair.
+ * Remembered sessions persist for the refresh token lifetime, otherwise the
+ * refresh token lives for the browser session only. The access token cookie
+ * always expires with the access token itself, from its `exp` claim or, for
+ * opaque tokens, the backend's `expTime`.
+ */
+export function setAuthCookies(
+  event: H3Event,
+  tokens: AuthTokens,
+  remember: boolean
+) {
+  const base = getBaseCookieOptions();
+  const sessionMaxAge = remember
+    ? getTokenMaxAge(tokens.refreshToken) ??
+      getCookieConfig().refreshTokenMaxAge ??
+      DEFAULT_REFRESH_TOKEN_MAX_AGE
+    : undefined;
+
+  setCookie(event, getAuthCookieName("accessToken"), tokens.accessToken, {
+    ...base,
+    maxAge:
+      getTokenMaxAge(tokens.accessToken) ??
+      getExpTimeMaxAge(tokens.expTime) ??
+      sessionMaxAge,
+  });
+  setCookie(event, getAuthCookieName("refreshToken"), tokens.refreshToken, {
+    ...base,
+    maxAge: sessionMaxAge,
+  });
+  setCookie(event, getAuthCookieName("expTime"), String(tokens.expTime), {
+    ...base,
+    maxAge: sessionMaxAge,
+  });
+
+  if (remember) {
+    setCookie(event, getAuthCookieName("remember"), "1", {
+      ...base,
+      maxAge: sessionMaxAge,
+    });
+  } else {
+    deleteCookie(event, getAuthCookieName("remember"), base);
+  }
+}
+
+export function deleteAuthCookies(event: H3Event) {
+  const base = getBaseCookieOptions();
+
+  (Object.keys(DEFAULT_NAMES) as AuthCookie[]).forEach((cookie) => {
+    deleteCookie(event, getAuthCookieName(cookie), base);
+  });
+}
+
+/**
+ * Options of the OAuth state cookie. It has to survive the top-level
+ * redirect back from the provider, so `strict` is relaxed to `lax`.
+ */
+function getOAuthStateCookieOptions(path: string) {
+  const base = getBaseCookieOptions();
+  return {
+    ...base,
+    sameSite: base.sameSite === "none" ? ("none" as const) : ("lax" as const),
+    path,
+  };
+}
+
+export function setOAuthStateCookie(event: H3Event, value: string, path: string) {
+  const { prefix = "" } = getCookieConfig();
+  setCookie(event, `${prefix}${OAUTH_STATE_COOKIE}`, value, {
+    ...getOAuthStateCookieOptions(path),
+    maxAge: OAUTH_STATE_MAX_AGE,
+  });
+}
+
+/**
+ * Read the OAuth state cookie once, it is deleted right away
+ */
+export function takeOAuthStateCookie(
+  event: H3Event,
+  path: string
+): string | undefined {
+  const { prefix = "" } = getCookieConfig();
+  const name = `${prefix}${OAUTH_STATE_COOKIE}`;
+  const value = getCookie(event, name);
+  deleteCookie(event, name, getOAuthStateCookieOptions(path));
+  return value;
+}
+
+export function getCsrfCookie(event: H3Event): string | undefined {
+  const { prefix = "" } = getCookieConfig();
+  return getCookie(event, `${prefix}${CSRF_COOKIE}`);
+}
+
+/**
+ * The CSRF cookie is read by the client to echo it in a header, so unlike
+ * the auth cookies it is not httpOnly
+ */
+export function setCsrfCookie(event: H3Event, token: string) {
+  const { prefix = "" } = getCookieConfig();
+  setCookie(event, `${prefix}${CSRF_COOKIE}`, token, {
+    ...getBaseCookieOptions(),
+    httpOnly: false,
+  });
+}
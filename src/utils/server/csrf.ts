@@ -0,0 +1,76 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { getHeader, getRequestHost, type H3Event } from "h3";
+import type { EnfyraCsrfConfig } from "../../types";
+import { getAuthCookie, getCsrfCookie, setCsrfCookie } from "./cookies";
+import { CSRF_HEADER } from "../../constants/csrf";
+
+/**
+ * CSRF token of the browser, issued when it has none yet. Kept in
+ * `event.context.enfyraCsrfToken` so SSR requests can send it along.
+ */
+export function resolveCsrfToken(event: H3Event): string {
+  let token: string | undefined =
+    event.context.enfyraCsrfToken || getCsrfCookie(event);
+  if (!token) {
+    token = randomBytes(32).toString("base64url");
+    setCsrfCookie(event, token);
+  }
+  event.context.enfyraCsrfToken = token;
+  return token;
+}
+
+/**
+ * Browsers send `Origin` with every cross-origin write. When present it has
+ * to be this host or a trusted origin; the scheme is not compared, so TLS
+ * terminated by a proxy does not matter.
+ */
+function isTrustedOrigin(event: H3Event, config: EnfyraCsrfConfig): boolean {
+  const origin = getHeader(event, "origin");
+  if (!origin) {
+    return true;
+  }
+  if (config.trustedOrigins?.includes(origin)) {
+    return true;
+  }
+
+  try {
+    return new URL(origin).host === getRequestHost(event, { xForwardedHost: true });
+  } catch {
+    return false;
+  }
+}
+
+function isTokenValid(event: H3Event): boolean {
+  const cookie = getCsrfCookie(event);
+  const header = getHeader(event, CSRF_HEADER);
+  if (!cookie || !header || cookie.length !== header.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(cookie), Buffer.from(header));
+}
+
+/**
+ * A bearer token cannot be attached by a cross-site page, but once the auth
+ * cookies are sent too they would authenticate the request as well
+ */
+function isBearerOnly(event: H3Event): boolean {
+  return (
+    /^Bearer\s+\S+/i.test(getHeader(event, "authorization") || "") &&
+    !getAuthCookie(event, "accessToken") &&
+    !getAuthCookie(event, "refreshToken")
+  );
+}
+
+/**
+ * Check a mutating request: a trusted origin and the double-submit token.
+ * Requests authenticated only by a bearer token pass.
+ */
+export function isCsrfRequestValid(
+  event: H3Event,
+  config: EnfyraCsrfConfig
+): boolean {
+  if (isBearerOnly(event)) {
+    return true;
+  }
+  return isTrustedOrigin(event, config) && isTokenValid(event);
+}
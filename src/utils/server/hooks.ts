@@ -0,0 +1,18 @@
+// Also resolvable from the Nuxt app's server bundle, unlike Nitro's #imports
+import { useNitroApp } from "#internal/nitro";
+import type { EnfyraServerAuthHooks } from "../../types/auth";
+
+/**
+ * Call an auth hook on the Nitro app. A failing hook is logged, it never
+ * breaks the request that triggered it.
+ */
+export async function callServerAuthHook<K extends keyof EnfyraServerAuthHooks>(
+  name: K,
+  ...args: Parameters<EnfyraServerAuthHooks[K]>
+): Promise<void> {
+  try {
+    await useNitroApp().hooks.callHook(name, ...args);
+  } catch (error) {
+    console.error(`[Enfyra SDK] ${name} hook failed:`, error);
+  }
+}
@@ -0,0 +1,28 @@
+export function decodeJWT(token: string): any {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+    
+    // Decode the payload (second part)
+    const payload = parts[1];
+    const decodedPayload = Buffer.from(payload, "base64url").toString("utf-8");
+    return JSON.parse(decodedPayload);
+  } catch (error) {
+    console.warn("Failed to decode JWT:", error);
+    return null;
+  }
+}
+
+/**
+ * Seconds until the token's `exp` claim, or undefined when it has none
+ */
+export function getTokenMaxAge(token: string): number | undefined {
+  const decoded = decodeJWT(token);
+  if (!decoded?.exp) {
+    return undefined;
+  }
+
+  return Math.max(0, Math.floor(decoded.exp - Date.now() / 1000));
+}
@@ -0,0 +1,207 @@
+import { createHash, randomBytes } from "node:crypto";
+import { getRequestURL, sendRedirect, type H3Event } from "h3";
+import { $fetch } from "ofetch";
+import { useRuntimeConfig } from "#imports";
+import type { EnfyraOAuthProviderConfig } from "../../types";
+import type { AuthTokens } from "./cookies";
+import { decodeJWT } from "./jwt";
+import { ENFYRA_API_PREFIX } from "../../constants/config";
+import {
+  OAUTH_ROUTE,
+  OAUTH_CALLBACK_ROUTE,
+  DEFAULT_OAUTH_SCOPES,
+  DEFAULT_OAUTH_EXCHANGE_ENDPOINT,
+} from "../../constants/oauth";
+
+interface OAuthEndpoints {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+}
+
+/**
+ * Login in progress, kept in the state cookie between the two routes
+ */
+export interface OAuthState {
+  provider: string;
+  state: string;
+  verifier: string;
+  nonce: string;
+  redirect?: string;
+  remember: boolean;
+}
+
+const discoveries = new Map<string, Promise<OAuthEndpoints>>();
+
+const randomToken = () => randomBytes(32).toString("base64url");
+
+export function getOAuthProvider(
+  name: string
+): EnfyraOAuthProviderConfig | undefined {
+  const providers = useRuntimeConfig().enfyraSDK?.oauth;
+  return providers && Object.prototype.hasOwnProperty.call(providers, name)
+    ? providers[name]
+    : undefined;
+}
+
+/**
+ * Path of the SDK's OAuth routes, the state cookie is limited to it
+ */
+export function getOAuthPath(): string {
+  const apiPrefix =
+    useRuntimeConfig().public?.enfyraSDK?.apiPrefix || ENFYRA_API_PREFIX;
+  return `${apiPrefix}${OAUTH_ROUTE}`;
+}
+
+function getRedirectUri(
+  event: H3Event,
+  name: string,
+  provider: EnfyraOAuthProviderConfig
+): string {
+  if (provider.redirectUri) {
+    return provider.redirectUri;
+  }
+  const { origin } = getRequestURL(event, {
+    xForwardedHost: true,
+    xForwardedProto: true,
+  });
+  return `${origin}${getOAuthPath()}/${encodeURIComponent(name)}${OAUTH_CALLBACK_ROUTE}`;
+}
+
+/**
+ * Explicit endpoints win, the rest comes from the issuer's discovery
+ * document, fetched once per Nitro instance
+ */
+async function resolveEndpoints(
+  provider: EnfyraOAuthProviderConfig
+): Promise<OAuthEndpoints> {
+  const { authorizationEndpoint, tokenEndpoint } = provider;
+  if (authorizationEndpoint && tokenEndpoint) {
+    return { authorizationEndpoint, tokenEndpoint };
+  }
+  if (!provider.issuer) {
+    throw new Error("OAuth provider needs an issuer or both endpoints");
+  }
+
+  const issuer = provider.issuer.replace(/\/+$/, "");
+  let discovery = discoveries.get(issuer);
+  if (!discovery) {
+    discovery = $fetch<any>(`${issuer}/.well-known/openid-configuration`).then(
+      (document) => ({
+        authorizationEndpoint: document.authorization_endpoint,
+        tokenEndpoint: document.token_endpoint,
+      })
+    );
+    discovery.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, discovery);
+  }
+
+  const discovered = await discovery;
+  return {
+    authorizationEndpoint:
+      authorizationEndpoint || discovered.authorizationEndpoint,
+    tokenEndpoint: tokenEndpoint || discovered.tokenEndpoint,
+  };
+}
+
+/**
+ * Build the provider's authorization URL, with a fresh state, nonce and
+ * PKCE challenge. The returned state has to be kept until the callback.
+ */
+export async function createAuthorizationRequest(
+  event: H3Event,
+  name: string,
+  provider: EnfyraOAuthProviderConfig,
+  options: { redirect?: string; remember: boolean }
+): Promise<{ url: string; state: OAuthState }> {
+  const { authorizationEndpoint } = await resolveEndpoints(provider);
+  const state: OAuthState = {
+    provider: name,
+    state: randomToken(),
+    verifier: randomToken(),
+    nonce: randomToken(),
+    ...options,
+  };
+
+  const url = new URL(authorizationEndpoint);
+  // Extra params first, so they cannot replace the protocol parameters
+  Object.entries({
+    ...provider.params,
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: getRedirectUri(event, name, provider),
+    scope: (provider.scopes || DEFAULT_OAUTH_SCOPES).join(" "),
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: createHash("sha256")
+      .update(state.verifier)
+      .digest("base64url"),
+    code_challenge_method: "S256",
+  }).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  return { url: url.toString(), state };
+}
+
+/**
+ * Redeem the authorization code at the provider, then exchange the
+ * provider's tokens for Enfyra tokens
+ */
+export async function exchangeAuthorizationCode(
+  event: H3Event,
+  provider: EnfyraOAuthProviderConfig,
+  state: OAuthState,
+  code: string
+): Promise<AuthTokens> {
+  const { tokenEndpoint } = await resolveEndpoints(provider);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: getRedirectUri(event, state.provider, provider),
+    client_id: provider.clientId,
+    code_verifier: state.verifier,
+  });
+  if (provider.clientSecret) {
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  const result = await $fetch<{ id_token?: string; access_token?: string }>(
+    tokenEndpoint,
+    { method: "POST", body, headers: { accept: "application/json" } }
+  );
+
+  // Enfyra verifies the ID token, the nonce ties it to this login
+  if (result.id_token && decodeJWT(result.id_token)?.nonce !== state.nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+
+  const apiUrl = useRuntimeConfig().public?.enfyraSDK?.apiUrl;
+  const { accessToken, refreshToken, expTime } = await $fetch<AuthTokens>(
+    `${apiUrl}${provider.exchangeEndpoint || DEFAULT_OAUTH_EXCHANGE_ENDPOINT}`,
+    {
+      method: "POST",
+      body: {
+        provider: state.provider,
+        idToken: result.id_token,
+        accessToken: result.access_token,
+      },
+    }
+  );
+  return { accessToken, refreshToken, expTime };
+}
+
+/**
+ * Send the browser back to the login page with an `error` code, keeping the
+ * page it wanted to open
+ */
+export function sendOAuthError(
+  event: H3Event,
+  code: string,
+  redirect?: string
+) {
+  const login =
+    useRuntimeConfig().public?.enfyraSDK?.redirects?.login || "/login";
+  const query = new URLSearchParams({ error: code });
+  if (redirect) {
+    query.set("redirect", redirect);
+  }
+  return sendRedirect(event, `${login}?${query}`, 302);
+}
@@ -0,0 +1,30 @@
+const patternCache = new Map<string, RegExp>();
+
+function toPattern(glob: string): RegExp {
+  let pattern = patternCache.get(glob);
+  if (!pattern) {
+    const source = ("/" + glob.replace(/^\/+/, ""))
+      .split(/(\/\*\*$|\*\*|\*)/)
+      .map((part) =>
+        part === "/**"
+          ? "(?:/.*)?"
+          : part === "**"
+          ? ".*"
+          : part === "*"
+          ? "[^/]*"
+          : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("");
+    pattern = new RegExp(`^${source}$`);
+    patternCache.set(glob, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Match a path against a pattern where `*` matches one path segment and
+ * `**` any number of them (`/posts/**` also matches `/posts`)
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  return toPattern(pattern).test(path);
+}
@@ -0,0 +1,93 @@
+import { createError, type H3Event } from "h3";
+import { useRuntimeConfig, useNitroApp } from "#imports";
+import type { EnfyraProxyContext, ProxyRule } from "../../types";
+import { PROXY_HOOK } from "../../constants/proxy";
+import { matchesPathPattern } from "./pattern";
+
+function matchesRule(rule: ProxyRule, pathname: string, method: string) {
+  const { path, methods } = typeof rule === "string" ? { path: rule } : rule;
+  if (methods && !methods.some((allowed) => allowed.toUpperCase() === method)) {
+    return false;
+  }
+  return matchesPathPattern(path, pathname);
+}
+
+/**
+ * Resolve dot segments and repeated slashes the way the backend URL will,
+ * so rules cannot be bypassed with `/posts/../auth`. Null when malformed or
+ * when the path hides separators behind percent-encoding.
+ */
+export function normalizeProxyPath(rawPath: string): string | null {
+  try {
+    const [pathname, ...search] = rawPath.split("?");
+    const url = new URL(
+      "/" + pathname.replace(/\/{2,}/g, "/").replace(/^\/+/, "") +
+        (search.length ? `?${search.join("?")}` : ""),
+      "http://localhost"
+    );
+    if (/%2f|%5c/i.test(url.pathname)) {
+      return null;
+    }
+    decodeURIComponent(url.pathname);
+    return url.pathname + url.search;
+  } catch {
+    return null;
+  }
+}
+
+export function isProxyPathAllowed(pathname: string, method: string): boolean {
+  const policy = useRuntimeConfig().enfyraSDK?.proxy;
+  const decoded = decodeURIComponent(pathname);
+  const upperMethod = method.toUpperCase();
+
+  if (policy?.deny?.some((rule) => matchesRule(rule, decoded, upperMethod))) {
+    return false;
+  }
+  if (policy?.allow) {
+    return policy.allow.some((rule) => matchesRule(rule, decoded, upperMethod));
+  }
+  return true;
+}
+
+export function createBlockedError() {
+  const status = useRuntimeConfig().enfyraSDK?.proxy?.blockedStatus || 403;
+  return createError({
+    statusCode: status,
+    statusMessage: status === 404 ? "Not Found" : "Forbidden",
+    data: { code: status === 404 ? "NOT_FOUND" : "FORBIDDEN" },
+  });
+}
+
+function checkProxyPath(rawPath: string, method: string): string | null {
+  const path = normalizeProxyPath(rawPath);
+  return path && isProxyPathAllowed(path.split("?")[0], method) ? path : null;
+}
+
+/**
+ * Apply the proxy policy and the `enfyra:proxy` hook to a backend path.
+ * A path rewritten by the hook goes through the policy again.
+ * Returns the path to proxy, or null when the request is blocked.
+ */
+export async function resolveProxyPath(
+  event: H3Event,
+  rawPath: string,
+  method = event.method
+): Promise<string | null> {
+  const path = checkProxyPath(rawPath, method);
+  if (!path) {
+    return null;
+  }
+
+  const context: EnfyraProxyContext = {
+    event,
+    path,
+    method: method.toUpperCase(),
+    blocked: false,
+  };
+  await useNitroApp().hooks.callHook(PROXY_HOOK, context);
+
+  if (context.blocked) {
+    return null;
+  }
+  return context.path === path ? path : checkProxyPath(context.path, method);
+}
@@ -1,17 +1,176 @@
-import { H3Event, proxyRequest } from "h3";
+import { H3Event, proxyRequest, getHeader, setResponseHeader } from "h3";
 import { useRuntimeConfig } from "#imports";
 import { ENFYRA_API_PREFIX } from "../../constants/config";
+import {
+  AUTH_HOOKS,
+  REPLAY_SAFE_HEADER,
+  REPLAYABLE_METHODS,
+} from "../../constants/auth";
+import { DEFAULT_ASSET_CACHE_CONTROL } from "../../constants/assets";
+import { CSRF_HEADER } from "../../constants/csrf";
+import {
+  refreshAccessToken,
+  getRefreshToken,
+  resolveAuthHeaders,
+} from "./refreshToken";
+import { callServerAuthHook } from "./hooks";
+
+function unauthorizedResponse() {
+  return new Response(
+    JSON.stringify({
+      statusCode: 401,
+      message: "Unauthorized",
+      data: { code: "UNAUTHORIZED" },
+    }),
+    { status: 401, headers: { "content-type": "application/json" } }
+  );
+}
+
+/**
+ * Fetch used by the proxy: when the backend answers 401 it refreshes the
+ * session once with the refresh token cookie and replays the request
+ */
+function createRefreshingFetch(event: H3Event, apiUrl?: string) {
+  const method = event.method.toUpperCase();
+  const replayable =
+    REPLAYABLE_METHODS.includes(method) ||
+    getHeader(event, REPLAY_SAFE_HEADER) === "1";
+
+  const onUnauthorized = <R>(response: R) =>
+    callServerAuthHook(AUTH_HOOKS.unauthorized, {
+      event,
+      path: event.path,
+    }).then(() => response);
+
+  return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    headers.delete(REPLAY_SAFE_HEADER);
+    headers.delete(CSRF_HEADER);
+
+    const response = await fetch(input, { ...init, headers });
+    const refreshToken = getRefreshToken(event);
+
+    if (response.status !== 401) {
+      return response;
+    }
+    if (!replayable || !refreshToken || !apiUrl) {
+      return onUnauthorized(response);
+    }
+
+    let accessToken: string;
+    try {
+      accessToken = await refreshAccessToken(event, refreshToken, apiUrl);
+    } catch {
+      return onUnauthorized(unauthorizedResponse());
+    }
+
+    event.context.proxyHeaders = event.context.proxyHeaders || {};
+    event.context.proxyHeaders.authorization = `Bearer ${accessToken}`;
+    headers.set("authorization", `Bearer ${accessToken}`);
+
+    const replayed = await fetch(input, { ...init, headers });
+    return replayed.status === 401 ? onUnauthorized(replayed) : replayed;
+  };
+}
+
+/**
+ * Fetch used by the asset proxy: files are requested without the user's
+ * token first, so public files stay publicly cacheable. The token is only
+ * resolved and sent when the backend answers 401 or 403.
+ */
+function createAssetFetch(event: H3Event, apiUrl?: string) {
+  const refreshingFetch = createRefreshingFetch(event, apiUrl);
+
+  return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    if (headers.has("authorization")) {
+      return refreshingFetch(input, init);
+    }
+
+    const response = await fetch(input, init);
+    if (![401, 403].includes(response.status)) {
+      return response;
+    }
+
+    await resolveAuthHeaders(event);
+    const authorization = event.context.proxyHeaders?.authorization;
+    if (!authorization) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    headers.set("authorization", authorization);
+    return refreshingFetch(input, { ...init, headers });
+  };
+}
+
+/**
+ * Backend path of a request to the API proxy, without the API prefix
+ */
+export function getProxyPath(event: H3Event): string {
+  const apiPrefix =
+    useRuntimeConfig().public?.enfyraSDK?.apiPrefix || ENFYRA_API_PREFIX;
+  return event.path.startsWith(apiPrefix)
+    ? event.path.slice(apiPrefix.length)
+    : event.path;
+}
 
 export function proxyToAPI(event: H3Event, customPath?: string) {
   const config = useRuntimeConfig();
-  const apiPrefix = config.public?.enfyraSDK?.apiPrefix || ENFYRA_API_PREFIX;
-  const rawPath =
-    customPath || event.path.replace(new RegExp(`^${apiPrefix}`), "");
-  const targetUrl = `${config.public?.enfyraSDK?.apiUrl}${rawPath}`;
+  const apiUrl = config.public?.enfyraSDK?.apiUrl;
+  const rawPath = customPath || getProxyPath(event);
+  const targetUrl = `${apiUrl}${rawPath}`;
 
   const headers = event.context.proxyHeaders || {};
 
   return proxyRequest(event, targetUrl, {
     headers,
+    fetch: createRefreshingFetch(event, apiUrl) as typeof fetch,
+  });
+}
+
+/**
+ * Proxy a file from `/assets/**`. Range and conditional request headers are
+ * forwarded as sent, and the response keeps its length so media can seek.
+ */
+export function proxyAssetToAPI(event: H3Event) {
+  const config = useRuntimeConfig();
+  const apiUrl = config.public?.enfyraSDK?.apiUrl;
+  const cacheControl = {
+    ...DEFAULT_ASSET_CACHE_CONTROL,
+    ...config.enfyraSDK?.assets?.cacheControl,
+  };
+
+  const headers: Record<string, string> = { ...event.context.proxyHeaders };
+  // An uncompressed response keeps a Content-Length that matches the body;
+  // fetch already asks for identity on Range requests
+  if (!getHeader(event, "range")) {
+    headers["accept-encoding"] = "identity";
+  }
+  const accept = getHeader(event, "accept");
+  if (accept) {
+    // Lets the backend negotiate image formats
+    headers.accept = accept;
+  }
+
+  return proxyRequest(event, `${apiUrl}${event.path}`, {
+    headers,
+    fetch: createAssetFetch(event, apiUrl) as typeof fetch,
+    onResponse(event, response) {
+      const length = response.headers.get("content-length");
+      if (length && !response.headers.has("content-encoding")) {
+        setResponseHeader(event, "content-length", Number(length));
+      }
+
+      if (![200, 206, 304].includes(response.status)) return;
+
+      const isPrivate =
+        !!event.context.proxyHeaders?.authorization ||
+        /\b(private|no-store)\b/.test(response.headers.get("cache-control") || "");
+      const value = isPrivate ? cacheControl.private : cacheControl.public;
+      if (value) {
+        setResponseHeader(event, "cache-control", value);
+      }
+    },
   });
 }
@@ -1,33 +1,18 @@
-import { setCookie, getCookie, type H3Event } from "h3";
+import type { H3Event } from "h3";
 import { $fetch } from "ofetch";
-import {
-  ACCESS_TOKEN_KEY,
-  REFRESH_TOKEN_KEY,
-  EXP_TIME_KEY,
-} from "../../constants/auth";
+import { useRuntimeConfig } from "#imports";
+import { decodeJWT } from "./jwt";
+import { getAuthCookie, setAuthCookies, type AuthTokens } from "./cookies";
+import { callServerAuthHook } from "./hooks";
+import { AUTH_HOOKS } from "../../constants/auth";
+
+export { decodeJWT };
 
 interface TokenValidationResult {
   accessToken: string | null;
   needsRefresh: boolean;
 }
 
-export function decodeJWT(token: string): any {
-  try {
-    const parts = token.split(".");
-    if (parts.length !== 3) {
-      return null;
-    }
-    
-    // Decode the payload (second part)
-    const payload = parts[1];
-    const decodedPayload = Buffer.from(payload, "base64url").toString("utf-8");
-    return JSON.parse(decodedPayload);
-  } catch (error) {
-    console.warn("Failed to decode JWT:", error);
-    return null;
-  }
-}
-
 export function isAccessTokenExpired(accessToken: string): boolean {
   const decoded = decodeJWT(accessToken);
   if (!decoded || !decoded.exp) {
@@ -40,8 +25,8 @@ export function isAccessTokenExpired(accessToken: string): boolean {
 }
 
 export function validateTokens(event: H3Event): TokenValidationResult {
-  const accessToken = getCookie(event, ACCESS_TOKEN_KEY);
-  const refreshToken = getCookie(event, REFRESH_TOKEN_KEY);
+  const accessToken = getAuthCookie(event, "accessToken");
+  const refreshToken = getAuthCookie(event, "refreshToken");
 
   if (accessToken && !isAccessTokenExpired(accessToken)) {
     return { accessToken, needsRefresh: false };
@@ -52,37 +37,117 @@ export function validateTokens(event: H3Event): TokenValidationResult {
   return { accessToken: null, needsRefresh: false };
 }
 
+/**
+ * How long the tokens obtained from a refresh token stay reusable by
+ * late requests still carrying that (now rotated) refresh token
+ */
+const REFRESH_REUSE_WINDOW = 10_000;
+
+const pendingRefreshes = new Map<string, Promise<AuthTokens>>();
+const recentRefreshes = new Map<string, AuthTokens>();
+
+/**
+ * Exchange a refresh token once per Nitro instance. Concurrent callers with
+ * the same refresh token share the request, and callers arriving shortly
+ * after it resolved reuse its result instead of spending the old token again.
+ */
+function refreshTokensOnce(
+  refreshToken: string,
+  apiUrl: string
+): Promise<AuthTokens> {
+  const recent = recentRefreshes.get(refreshToken);
+  if (recent) {
+    return Promise.resolve(recent);
+  }
+
+  let pending = pendingRefreshes.get(refreshToken);
+  if (!pending) {
+    pending = $fetch<AuthTokens>(`${apiUrl}/auth/refresh-token`, {
+      method: "POST",
+      body: { refreshToken },
+    })
+      .then((tokens) => {
+        recentRefreshes.set(refreshToken, tokens);
+        setTimeout(
+          () => recentRefreshes.delete(refreshToken),
+          REFRESH_REUSE_WINDOW
+        ).unref?.();
+        return tokens;
+      })
+      .finally(() => {
+        pendingRefreshes.delete(refreshToken);
+      });
+    pendingRefreshes.set(refreshToken, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Latest refresh token for this request, taking a refresh that already
+ * happened earlier in the same request into account
+ */
+export function getRefreshToken(event: H3Event): string | undefined {
+  return (
+    event.context.enfyraRefreshToken || getAuthCookie(event, "refreshToken")
+  );
+}
+
 export async function refreshAccessToken(
   event: H3Event,
   refreshToken: string,
   apiUrl: string
 ): Promise<string> {
   try {
-    const response = await $fetch(`${apiUrl}/auth/refresh-token`, {
-      method: "POST",
-      body: { refreshToken },
-    });
-
-    const {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
-      expTime: newExpTime,
-    } = response;
-
-    const cookieOptions = {
-      httpOnly: true,
-      secure: true,
-      sameSite: "lax" as const,
-      path: "/",
-    };
-
-    setCookie(event, ACCESS_TOKEN_KEY, newAccessToken, cookieOptions);
-    setCookie(event, REFRESH_TOKEN_KEY, newRefreshToken, cookieOptions);
-    setCookie(event, EXP_TIME_KEY, String(newExpTime), cookieOptions);
-
-    return newAccessToken;
+    const tokens = await refreshTokensOnce(refreshToken, apiUrl);
+
+    setAuthCookies(event, tokens, getAuthCookie(event, "remember") === "1");
+
+    event.context.enfyraRefreshToken = tokens.refreshToken;
+    await callServerAuthHook(AUTH_HOOKS.tokenRefreshed, { event });
+
+    return tokens.accessToken;
   } catch (error) {
     console.warn("Token refresh failed:", error);
+    await callServerAuthHook(AUTH_HOOKS.sessionExpired, { event });
     throw error;
   }
 }
+
+/**
+ * Put the user's access token in `event.context.proxyHeaders`, refreshing
+ * the session first when the access token expired. Runs once per request.
+ */
+export async function resolveAuthHeaders(event: H3Event): Promise<void> {
+  if (event.context.enfyraAuthResolved) {
+    return;
+  }
+  event.context.enfyraAuthResolved = true;
+
+  const { accessToken, needsRefresh } = validateTokens(event);
+
+  let currentAccessToken: string | null = accessToken;
+
+  if (needsRefresh) {
+    const refreshToken = getRefreshToken(event);
+    if (refreshToken) {
+      try {
+        const apiUrl = useRuntimeConfig().public?.enfyraSDK?.apiUrl;
+        if (apiUrl) {
+          currentAccessToken = await refreshAccessToken(
+            event,
+            refreshToken,
+            apiUrl
+          );
+        }
+      } catch (error) {
+        currentAccessToken = null;
+      }
+    }
+  }
+
+  if (currentAccessToken) {
+    event.context.proxyHeaders = event.context.proxyHeaders || {};
+    event.context.proxyHeaders.authorization = `Bearer ${currentAccessToken}`;
+  }
+}
@@ -0,0 +1,106 @@
+import { $fetch } from "ofetch";
+import { useRuntimeConfig } from "#imports";
+import type { EnfyraServerClient, EnfyraServiceAccountConfig } from "../../types";
+import type { AuthTokens } from "./cookies";
+import { decodeJWT } from "./jwt";
+import { createServerClient } from "./client";
+
+// Renew the service token this long before it expires
+const EXPIRY_MARGIN = 30_000;
+
+let session: AuthTokens | null = null;
+let pendingSession: Promise<AuthTokens> | null = null;
+
+function isUsable(accessToken: string): boolean {
+  const exp = decodeJWT(accessToken)?.exp;
+  return !exp || exp * 1000 - EXPIRY_MARGIN > Date.now();
+}
+
+async function signIn(
+  apiUrl: string,
+  account: EnfyraServiceAccountConfig,
+  previous: AuthTokens | null
+): Promise<AuthTokens> {
+  if (previous?.refreshToken) {
+    try {
+      return await $fetch<AuthTokens>(`${apiUrl}/auth/refresh-token`, {
+        method: "POST",
+        body: { refreshToken: previous.refreshToken },
+      });
+    } catch {
+      // Refresh token expired or revoked, log in again
+    }
+  }
+
+  return $fetch<AuthTokens>(`${apiUrl}/auth/login`, {
+    method: "POST",
+    body: { email: account.email, password: account.password },
+  });
+}
+
+/**
+ * Service account session shared by the whole Nitro instance, renewed
+ * before it expires. Concurrent callers share one login or refresh.
+ */
+function getSession(
+  apiUrl: string,
+  account: EnfyraServiceAccountConfig,
+  force = false
+): Promise<AuthTokens> {
+  if (!force && session && isUsable(session.accessToken)) {
+    return Promise.resolve(session);
+  }
+
+  if (!pendingSession) {
+    pendingSession = signIn(apiUrl, account, session)
+      .then((tokens) => (session = tokens))
+      .finally(() => {
+        pendingSession = null;
+      });
+  }
+  return pendingSession;
+}
+
+/**
+ * Enfyra client authenticated as the configured service account, for jobs,
+ * webhooks and other server code that runs without a logged-in user
+ */
+export function useEnfyraServiceClient(): EnfyraServerClient {
+  if (process.client) {
+    throw new Error(
+      "[Enfyra SDK] useEnfyraServiceClient() is server-only, service credentials must never reach the browser"
+    );
+  }
+
+  const config = useRuntimeConfig();
+  const apiUrl: string = config.public?.enfyraSDK?.apiUrl || "";
+  const account = config.enfyraSDK?.serviceAccount;
+
+  if (account?.apiKey) {
+    const apiKey = account.apiKey;
+    return createServerClient(apiUrl, {
+      headers: () => ({ authorization: `Bearer ${apiKey}` }),
+      renew: async () => false,
+    });
+  }
+
+  if (!account?.email || !account?.password) {
+    throw new Error(
+      "[Enfyra SDK] No service account configured, set enfyraSDK.serviceAccount.apiKey or email and password"
+    );
+  }
+
+  return createServerClient(apiUrl, {
+    headers: async () => ({
+      authorization: `Bearer ${(await getSession(apiUrl, account)).accessToken}`,
+    }),
+    renew: async () => {
+      try {
+        await getSession(apiUrl, account, true);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  });
+}
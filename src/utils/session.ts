@@ -0,0 +1,240 @@
+import type { EnfyraSession, EnfyraSessionResponse, User } from "../types";
+import { refreshSession } from "./http";
+import { clearCache } from "./cache";
+import { callAuthHook } from "./hooks";
+import { getAppUrl } from "./url";
+import { useEnfyraAuth } from "../composables/useEnfyraAuth";
+import { AUTH_HOOKS, USER_STATE_KEY } from "../constants/auth";
+import { ENFYRA_API_PREFIX } from "../constants/config";
+import {
+  SESSION_ROUTE,
+  SESSION_STATE_KEY,
+  SESSION_EXPIRING_STATE_KEY,
+  SESSION_CHANNEL,
+  DEFAULT_SESSION_OPTIONS,
+  SESSION_REFRESH_JITTER,
+  MIN_SESSION_REFRESH_INTERVAL,
+} from "../constants/session";
+import { useState, useRuntimeConfig, navigateTo, tryUseNuxtApp } from "#imports";
+
+/**
+ * Session change sent to the other tabs. Cookies are shared by the tabs,
+ * so the message only carries what the receivers have to update.
+ */
+type SessionMessage =
+  | { type: "login" | "refresh"; session: EnfyraSession }
+  | { type: "logout" | "expired" };
+
+const SIGNED_OUT: EnfyraSession = {
+  authenticated: false,
+  expiresAt: null,
+  refreshExpiresAt: null,
+};
+
+// setTimeout fires right away for delays above ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+let started = false;
+let channel: BroadcastChannel | null = null;
+let timers: ReturnType<typeof setTimeout>[] = [];
+let lastRefreshAt = 0;
+let pendingCheck: Promise<EnfyraSession | null> | null = null;
+
+type NuxtApp = NonNullable<ReturnType<typeof tryUseNuxtApp>>;
+
+export function useSessionState() {
+  return useState<EnfyraSession | null>(SESSION_STATE_KEY, () => null);
+}
+
+export function useSessionExpiring() {
+  return useState<boolean>(SESSION_EXPIRING_STATE_KEY, () => false);
+}
+
+function getBaseURL(): string {
+  const config = useRuntimeConfig().public.enfyraSDK;
+  return getAppUrl() + (config?.apiPrefix || ENFYRA_API_PREFIX);
+}
+
+function runAt(time: number, callback: () => void) {
+  const delay = Math.max(0, time - Date.now());
+  timers.push(
+    setTimeout(
+      () => (delay > MAX_TIMER_DELAY ? runAt(time, callback) : callback()),
+      Math.min(delay, MAX_TIMER_DELAY)
+    )
+  );
+}
+
+/**
+ * Refresh shortly before the access token expires, and flag the session as
+ * expiring before the refresh token runs out
+ */
+function schedule(session: EnfyraSession) {
+  timers.forEach(clearTimeout);
+  timers = [];
+
+  const expiring = useSessionExpiring();
+  if (!session.authenticated) {
+    expiring.value = false;
+    return;
+  }
+
+  const { refreshBefore, warnBefore } = {
+    ...DEFAULT_SESSION_OPTIONS,
+    ...useRuntimeConfig().public.enfyraSDK?.session,
+  };
+
+  // An expired access token is renewed right away, but never in a loop.
+  // Without a known expiry the token is renewed on a 401 instead.
+  if (session.expiresAt !== null) {
+    runAt(
+      Math.max(
+        session.expiresAt -
+          refreshBefore -
+          Math.random() * SESSION_REFRESH_JITTER,
+        lastRefreshAt + MIN_SESSION_REFRESH_INTERVAL
+      ),
+      () => void renewSession()
+    );
+  }
+
+  const { refreshExpiresAt } = session;
+  expiring.value =
+    !!refreshExpiresAt && Date.now() >= refreshExpiresAt - warnBefore;
+  if (refreshExpiresAt) {
+    runAt(refreshExpiresAt - warnBefore, () => {
+      expiring.value = true;
+    });
+    runAt(refreshExpiresAt, () => void checkSession());
+  }
+}
+
+function setSession(session: EnfyraSession) {
+  useSessionState().value = session;
+  schedule(session);
+}
+
+function signOut() {
+  setSession(SIGNED_OUT);
+  useState<User | null>(USER_STATE_KEY).value = null;
+  clearCache();
+}
+
+function broadcast(message: SessionMessage) {
+  channel?.postMessage(message);
+}
+
+/**
+ * Load the session from the session route, with its timestamps moved to the
+ * client clock. A session found gone is reported as `enfyra:session:expired`.
+ */
+export function checkSession(): Promise<EnfyraSession | null> {
+  if (!pendingCheck) {
+    pendingCheck = fetch(`${getBaseURL()}${SESSION_ROUTE}`, {
+      headers: { accept: "application/json" },
+    })
+      .then(async (response) => {
+        if (!response.ok) return null;
+
+        const { serverTime, ...reported }: EnfyraSessionResponse =
+          await response.json();
+        const skew = Date.now() - serverTime;
+        const session: EnfyraSession = {
+          authenticated: reported.authenticated,
+          expiresAt: reported.expiresAt && reported.expiresAt + skew,
+          refreshExpiresAt:
+            reported.refreshExpiresAt && reported.refreshExpiresAt + skew,
+        };
+
+        const wasAuthenticated = useSessionState().value?.authenticated;
+        setSession(session);
+        if (wasAuthenticated && !session.authenticated) {
+          await callAuthHook(AUTH_HOOKS.sessionExpired);
+        }
+        return session;
+      })
+      .catch(() => null)
+      .finally(() => {
+        pendingCheck = null;
+      });
+  }
+  return pendingCheck;
+}
+
+/**
+ * Refresh the access token through the SDK refresh route. The outcome
+ * reaches the session through the `enfyra:token:refreshed` and
+ * `enfyra:session:expired` hooks.
+ */
+export function renewSession(): Promise<boolean> {
+  lastRefreshAt = Date.now();
+  return refreshSession(`${getBaseURL()}/`);
+}
+
+function onMessage(nuxtApp: NuxtApp, message: SessionMessage) {
+  nuxtApp.runWithContext(() => {
+    switch (message.type) {
+      case "login":
+        clearCache();
+        setSession(message.session);
+        void useEnfyraAuth().fetchUser();
+        break;
+      case "refresh":
+        setSession(message.session);
+        break;
+      case "logout": {
+        signOut();
+        const afterLogout =
+          useRuntimeConfig().public.enfyraSDK?.redirects?.afterLogout;
+        if (afterLogout) void navigateTo(afterLogout);
+        break;
+      }
+      case "expired":
+        signOut();
+        break;
+    }
+  });
+}
+
+/**
+ * Keep the session of this tab up to date: follow the auth hooks, share
+ * changes with the other tabs, and check again when the tab becomes visible,
+ * since timers of hidden tabs may be delayed. Runs once per tab.
+ */
+export function startSessionSync() {
+  if (started || typeof window === "undefined") return;
+  const nuxtApp = tryUseNuxtApp();
+  if (!nuxtApp) return;
+  started = true;
+
+  const announce = (type: "login" | "refresh") => {
+    void checkSession().then((session) => {
+      if (session?.authenticated) broadcast({ type, session });
+    });
+  };
+
+  nuxtApp.hook(AUTH_HOOKS.login, () => announce("login"));
+  nuxtApp.hook(AUTH_HOOKS.tokenRefreshed, () => announce("refresh"));
+  nuxtApp.hook(AUTH_HOOKS.logout, () => {
+    signOut();
+    broadcast({ type: "logout" });
+  });
+  nuxtApp.hook(AUTH_HOOKS.sessionExpired, () => {
+    signOut();
+    broadcast({ type: "expired" });
+  });
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(SESSION_CHANNEL);
+    channel.onmessage = (event: MessageEvent<SessionMessage>) =>
+      onMessage(nuxtApp, event.data);
+  }
+
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      nuxtApp.runWithContext(() => void checkSession());
+    }
+  });
+
+  void checkSession();
+}
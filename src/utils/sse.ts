@@ -0,0 +1,59 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+function parseMessage(raw: string): ServerSentEvent | null {
+  const message: ServerSentEvent = { data: "" };
+  const data: string[] = [];
+
+  raw.split(/\r?\n/).forEach((line) => {
+    // Lines starting with a colon are comments / keep-alives
+    if (!line || line.startsWith(":")) return;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "data") data.push(value);
+    else if (field === "event") message.event = value;
+    else if (field === "id") message.id = value;
+  });
+
+  if (data.length === 0 && !message.event) {
+    return null;
+  }
+  message.data = data.join("\n");
+  return message;
+}
+
+/**
+ * Read Server-Sent Events from a response body
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = /\r?\n\r?\n/.exec(buffer);
+      while (boundary) {
+        const message = parseMessage(buffer.slice(0, boundary.index));
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+        if (message) yield message;
+        boundary = /\r?\n\r?\n/.exec(buffer);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,195 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import { $fetch } from "ofetch";
+import type {
+  EnfyraSchemaSnapshot,
+  SchemaColumn,
+  SchemaRelation,
+  SchemaTable,
+} from "../types";
+
+/**
+ * Endpoint and query used to read table metadata from the Enfyra backend
+ */
+export const SCHEMA_ENDPOINT = "/table_definition";
+const SCHEMA_QUERY = {
+  fields: "*,columns.*,relations.*,relations.targetTable.id,relations.targetTable.name",
+  limit: 0,
+};
+
+const TO_ONE_RELATIONS = ["many-to-one", "one-to-one"];
+
+function normalizeTables(rows: any[]): SchemaTable[] {
+  const namesById = new Map<string, string>(
+    rows.map((row) => [String(row.id), row.name])
+  );
+
+  return rows.map((row) => ({
+    name: row.name,
+    columns: (row.columns || []).map(
+      (column: any): SchemaColumn => ({
+        name: column.name,
+        type: column.type,
+        isNullable: !!column.isNullable,
+        isPrimary: !!column.isPrimary,
+        options: Array.isArray(column.options) ? column.options : undefined,
+      })
+    ),
+    relations: (row.relations || []).map(
+      (relation: any): SchemaRelation => ({
+        propertyName: relation.propertyName,
+        type: relation.type,
+        targetTable:
+          typeof relation.targetTable === "object"
+            ? relation.targetTable?.name ??
+              namesById.get(String(relation.targetTable?.id))
+            : namesById.get(String(relation.targetTable)),
+      })
+    ),
+  }));
+}
+
+/**
+ * Pull table, column and relation metadata from the Enfyra backend
+ */
+export async function fetchSchemaSnapshot(options: {
+  apiUrl: string;
+  token?: string;
+  endpoint?: string;
+}): Promise<EnfyraSchemaSnapshot> {
+  const response = await $fetch<any>(
+    `${options.apiUrl.replace(/\/+$/, "")}${options.endpoint || SCHEMA_ENDPOINT}`,
+    {
+      query: SCHEMA_QUERY,
+      headers: options.token
+        ? { authorization: `Bearer ${options.token}` }
+        : undefined,
+    }
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    tables: normalizeTables(response?.data || []),
+  };
+}
+
+export async function readSchemaSnapshot(
+  file: string
+): Promise<EnfyraSchemaSnapshot | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function writeSchemaSnapshot(
+  file: string,
+  snapshot: EnfyraSchemaSnapshot
+) {
+  await fs.mkdir(dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
+
+export function toTypeName(tableName: string): string {
+  const name = tableName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `T${name}` : name || "Unknown";
+}
+
+function columnType(column: SchemaColumn): string {
+  const options = column.options?.map((option) => JSON.stringify(option));
+
+  switch (column.type) {
+    case "int":
+    case "integer":
+    case "bigint":
+    case "float":
+    case "decimal":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "varchar":
+    case "text":
+    case "richtext":
+    case "code":
+    case "uuid":
+    case "date":
+    case "timestamp":
+    case "datetime":
+      return "string";
+    case "enum":
+      return options?.length ? options.join(" | ") : "string";
+    case "array-select":
+      return options?.length ? `(${options.join(" | ")})[]` : "string[]";
+    case "simple-json":
+    case "json":
+      return "any";
+    default:
+      return "unknown";
+  }
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Render one interface per table plus the path-to-type map used by
+ * `useEnfyraApi` for inference
+ */
+export function generateSchemaTypes(
+  snapshot: EnfyraSchemaSnapshot,
+  typesModule: string
+): string {
+  const tables = snapshot.tables.filter((table) => table.name);
+  const known = new Set(tables.map((table) => table.name));
+
+  const interfaces = tables.map((table) => {
+    const columns = table.columns.map((column) => {
+      const type = columnType(column);
+      return column.isNullable
+        ? `  ${propertyKey(column.name)}?: ${type} | null;`
+        : `  ${propertyKey(column.name)}: ${type};`;
+    });
+
+    const relations = table.relations.map((relation) => {
+      const target =
+        relation.targetTable && known.has(relation.targetTable)
+          ? toTypeName(relation.targetTable)
+          : "Record<string, any>";
+      const type = TO_ONE_RELATIONS.includes(relation.type)
+        ? `${target} | null`
+        : `${target}[]`;
+      return `  ${propertyKey(relation.propertyName)}?: ${type};`;
+    });
+
+    return [
+      `export interface ${toTypeName(table.name)} {`,
+      ...columns,
+      ...relations,
+      `}`,
+    ].join("\n");
+  });
+
+  const paths = tables.map(
+    (table) =>
+      `    ${JSON.stringify(`/${table.name}`)}: ${toTypeName(table.name)};`
+  );
+
+  return [
+    `// Generated by @enfyra/sdk-nuxt from the Enfyra schema - do not edit`,
+    ``,
+    ...interfaces.flatMap((block) => [block, ``]),
+    `declare module ${JSON.stringify(typesModule)} {`,
+    `  interface EnfyraPathTypes {`,
+    ...paths,
+    `  }`,
+    `}`,
+    ``,
+  ].join("\n");
+}
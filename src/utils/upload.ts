@@ -0,0 +1,301 @@
+import { serializeQuery } from "./query";
+import { refreshSession } from "./http";
+import { callAuthHook } from "./hooks";
+import { withRetry } from "./retry";
+import { withCsrfToken, ensureCsrfToken } from "./csrf";
+import type { RetryOptions } from "../types";
+import type { EnfyraQueryInput } from "../types/query";
+import { AUTH_HOOKS, REPLAY_SAFE_HEADER } from "../constants/auth";
+import { UPLOAD_ID_HEADER, UPLOAD_OFFSET_HEADER } from "../constants/upload";
+
+export interface UploadRequestOptions {
+  baseURL: string;
+  method?: string;
+  headers?: Record<string, string>;
+  query?: EnfyraQueryInput;
+  /** Allow replaying the upload after a token refresh */
+  replaySafe?: boolean;
+  signal?: AbortSignal;
+  /** Bytes of the upload sent so far */
+  onProgress?: (loaded: number) => void;
+}
+
+/**
+ * Resume point of a chunked upload, kept between attempts
+ */
+export interface ChunkedUploadState {
+  uploadId: string;
+  /** Bytes the server has acknowledged */
+  offset: number;
+}
+
+interface UploadResponse {
+  data: any;
+  headers: Headers;
+}
+
+/**
+ * Byte-level progress needs XMLHttpRequest, fetch has no upload events
+ */
+export function canTrackUpload(): boolean {
+  return typeof XMLHttpRequest !== "undefined";
+}
+
+export function getUploadSize(item: FormData | Blob): number {
+  if (item instanceof Blob) {
+    return item.size;
+  }
+
+  let size = 0;
+  item.forEach((value) => {
+    size +=
+      value instanceof Blob
+        ? value.size
+        : new TextEncoder().encode(String(value)).length;
+  });
+  return size;
+}
+
+export function createUploadState(): ChunkedUploadState {
+  const uploadId =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return { uploadId, offset: 0 };
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim()
+        );
+      }
+    });
+  return headers;
+}
+
+function sendXhr(
+  url: string,
+  method: string,
+  body: FormData | Blob,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<{ status: number; data: any; headers: Headers }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const done = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.onload = () => {
+      done();
+      const responseHeaders = parseHeaders(xhr.getAllResponseHeaders());
+      let data: any = xhr.responseText;
+      if (responseHeaders.get("content-type")?.includes("application/json")) {
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          data = { message: xhr.statusText };
+        }
+      }
+      resolve({ status: xhr.status, data, headers: responseHeaders });
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+
+    xhr.send(body);
+  });
+}
+
+async function sendUpload(
+  path: string,
+  body: FormData | Blob,
+  options: UploadRequestOptions
+): Promise<UploadResponse> {
+  const { method = "POST", query = {}, replaySafe = false, signal } = options;
+
+  const normalizedBaseURL = options.baseURL.endsWith("/")
+    ? options.baseURL
+    : `${options.baseURL}/`;
+  const url = new URL(path.replace(/^\/+/, ""), normalizedBaseURL);
+  Object.entries(serializeQuery(query)).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+
+  const headers: Record<string, string> = {};
+  Object.entries(options.headers || {}).forEach(([name, value]) => {
+    // The browser sets the multipart boundary itself
+    if (name.toLowerCase() !== "content-type") headers[name] = value;
+  });
+  if (replaySafe) {
+    headers[REPLAY_SAFE_HEADER] = "1";
+  }
+  await ensureCsrfToken(normalizedBaseURL);
+  Object.assign(headers, withCsrfToken(headers));
+
+  const size = getUploadSize(body);
+  const send = () =>
+    sendXhr(url.toString(), method.toUpperCase(), body, headers, signal, (fraction) =>
+      options.onProgress?.(Math.round(size * fraction))
+    );
+
+  let response = await send();
+
+  if (response.status === 401 && replaySafe) {
+    if (!(await refreshSession(normalizedBaseURL))) {
+      void callAuthHook(AUTH_HOOKS.unauthorized, {
+        url: url.toString(),
+        method: method.toUpperCase(),
+      });
+      throw {
+        message: "Unauthorized",
+        response: {
+          status: 401,
+          data: { message: "Unauthorized", code: "UNAUTHORIZED" },
+        },
+      };
+    }
+    options.onProgress?.(0);
+    response = await send();
+  }
+
+  if (response.status === 401) {
+    void callAuthHook(AUTH_HOOKS.unauthorized, {
+      url: url.toString(),
+      method: method.toUpperCase(),
+    });
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw {
+      response: {
+        status: response.status,
+        data: response.data,
+        headers: response.headers,
+      },
+    };
+  }
+
+  return { data: response.data, headers: response.headers };
+}
+
+/**
+ * Upload a FormData or Blob with byte-level progress
+ */
+export async function $upload<T = any>(
+  path: string,
+  body: FormData | Blob,
+  options: UploadRequestOptions
+): Promise<T> {
+  return (await sendUpload(path, body, options)).data;
+}
+
+function findFile(form: FormData): [string, File] | null {
+  let found: [string, File] | null = null;
+  form.forEach((value, key) => {
+    if (!found && value instanceof File) found = [key, value];
+  });
+  return found;
+}
+
+/**
+ * Upload the file of a FormData in chunks, each sent with a `Content-Range`
+ * and the upload id header. Progress is stored in `state`, so calling this
+ * again with the same state resumes after the last acknowledged chunk.
+ */
+export async function uploadChunked<T = any>(
+  path: string,
+  form: FormData,
+  options: UploadRequestOptions & {
+    chunkSize: number;
+    state: ChunkedUploadState;
+    retry: Required<RetryOptions> | null;
+  }
+): Promise<T> {
+  const { chunkSize, state, retry, onProgress, ...requestOptions } = options;
+  const entry = findFile(form);
+  if (!entry || entry[1].size === 0) {
+    return $upload<T>(path, form, options);
+  }
+
+  const [fieldName, file] = entry;
+  const method = (requestOptions.method || "POST").toUpperCase();
+  // A chunk carries its byte range, so sending it again is always safe
+  const chunkRetry = retry && { ...retry, methods: [...retry.methods, method] };
+  let response: UploadResponse | null = null;
+
+  while (state.offset < file.size) {
+    const start = state.offset;
+    const end = Math.min(start + chunkSize, file.size);
+
+    const chunk = new FormData();
+    form.forEach((value, key) => {
+      if (key !== fieldName) chunk.append(key, value);
+    });
+    chunk.append(fieldName, file.slice(start, end), file.name);
+
+    response = await withRetry(
+      () =>
+        sendUpload(path, chunk, {
+          ...requestOptions,
+          headers: {
+            ...requestOptions.headers,
+            "content-range": `bytes ${start}-${end - 1}/${file.size}`,
+            [UPLOAD_ID_HEADER]: state.uploadId,
+          },
+          onProgress: (loaded) =>
+            onProgress?.(start + Math.min(loaded, end - start)),
+        }),
+      { method, retry: chunkRetry, signal: requestOptions.signal }
+    );
+
+    const reported = response.headers.get(UPLOAD_OFFSET_HEADER);
+    const serverOffset = Number(reported);
+    // An offset that does not move forward would resend the same chunk forever
+    const valid =
+      reported === null ||
+      (Number.isInteger(serverOffset) &&
+        serverOffset > start &&
+        serverOffset <= file.size);
+    if (!valid) {
+      throw {
+        message: `Invalid ${UPLOAD_OFFSET_HEADER} ${reported} after bytes ${start}-${end - 1}/${file.size}`,
+        data: { message: "Invalid upload offset", code: "UPLOAD_OFFSET_INVALID" },
+      };
+    }
+    state.offset = reported !== null ? serverOffset : end;
+    onProgress?.(state.offset);
+  }
+
+  return response?.data;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createRouter } from "h3";
+import { setEnfyraConfig } from "./stubs/imports";
+import authMiddleware from "../src/runtime/server/middleware/auth";
+import assetsRoute from "../src/runtime/server/api/assets";
+import { createTestClient, createJWT } from "./helpers/app";
+import { startServer, type TestServer } from "./helpers/server";
+
+let backend: TestServer;
+let received: (string | undefined)[] = [];
+
+const accessToken = createJWT({ exp: Math.floor(Date.now() / 1000) + 900 });
+const session = { cookie: `accessToken=${accessToken}` };
+
+const request = createTestClient((app) => {
+  app.use(authMiddleware);
+  app.use(createRouter().use("/assets/**", assetsRoute));
+});
+
+beforeAll(async () => {
+  // Serves public.png to anyone and private.png to the session's token only
+  backend = await startServer((req, res) => {
+    received.push(req.headers.authorization);
+    const allowed =
+      req.url === "/assets/public.png" ||
+      req.headers.authorization === `Bearer ${accessToken}`;
+
+    res.writeHead(allowed ? 200 : 401, { "content-type": "image/png" });
+    res.end(allowed ? "png" : "");
+  });
+});
+
+afterAll(async () => {
+  await backend.close();
+});
+
+beforeEach(() => {
+  received = [];
+  setEnfyraConfig({
+    public: { apiUrl: backend.url },
+    server: { cookie: { secure: false } },
+  });
+});
+
+describe("asset proxy", () => {
+  it("fetches public files without the user's token", async () => {
+    const response = await request("/assets/public.png", { headers: session });
+
+    expect(response.status).toBe(200);
+    expect(received).toEqual([undefined]);
+    expect(response.headers.get("cache-control")).toBe("public, max-age=86400");
+  });
+
+  it("retries a refused file with the user's token and keeps it private", async () => {
+    const response = await request("/assets/private.png", { headers: session });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("png");
+    expect(received).toEqual([undefined, `Bearer ${accessToken}`]);
+    expect(response.headers.get("cache-control")).toBe("private, no-cache");
+  });
+
+  it("passes the refusal on without a session", async () => {
+    const response = await request("/assets/private.png");
+
+    expect(response.status).toBe(401);
+    expect(received).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { setEnfyraConfig } from "./stubs/imports";
+import { useEnfyraApi } from "../src/composables/useEnfyraApi";
+import {
+  getCacheEntry,
+  getCacheKey,
+  resolveCacheOptions,
+  setCacheData,
+  clearCache,
+} from "../src/utils/cache";
+
+type Request = {
+  path: string;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+};
+
+let requests: Request[] = [];
+
+vi.mock("../src/utils/http", () => ({
+  $fetch: (path: string) =>
+    new Promise((resolve, reject) => requests.push({ path, resolve, reject })),
+}));
+
+vi.mock("../src/utils/csrf", () => ({
+  isCsrfSafeMethod: () => true,
+  withCsrfToken: (headers: Record<string, string>) => headers,
+}));
+
+async function settle() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function answer(path: string, ok = true) {
+  const request = requests.find((entry) => entry.path === path)!;
+  if (ok) {
+    request.resolve({ id: path });
+  } else {
+    request.reject({ response: { status: 500, data: { message: "Failed" } } });
+  }
+}
+
+beforeEach(() => {
+  requests = [];
+  setEnfyraConfig({ public: { apiPrefix: "/enfyra/api" } });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("batch operations", () => {
+  it("lets a failing group finish before the batch stops", async () => {
+    const { execute } = useEnfyraApi("/posts", { method: "delete" });
+    const onProgress = vi.fn();
+
+    const result = execute({ ids: [1, 2, 3, 4], concurrent: 2, onProgress });
+    await settle();
+    expect(requests.map((request) => request.path)).toEqual(["posts/1", "posts/2"]);
+
+    answer("posts/1", false);
+    await settle();
+    answer("posts/2");
+
+    await expect(result).resolves.toBeNull();
+    expect(requests).toHaveLength(2);
+
+    const { results } = onProgress.mock.calls.at(-1)![0];
+    expect(results).toEqual([
+      expect.objectContaining({ index: 0, status: "failed" }),
+      expect.objectContaining({ index: 1, status: "completed" }),
+    ]);
+  });
+
+  it("keeps the optimistic update of items completed in the failing group", async () => {
+    clearCache();
+    const entry = getCacheEntry(getCacheKey("posts"), "posts", resolveCacheOptions(true)!);
+    setCacheData(entry, { data: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    const { execute } = useEnfyraApi("/posts", { method: "delete" });
+
+    const result = execute({
+      ids: [1, 2],
+      optimistic: {
+        update: (response, change) => ({
+          ...response,
+          data: response.data.filter((post: any) => !change.ids?.includes(post.id)),
+        }),
+      },
+    });
+    await settle();
+    answer("posts/1", false);
+    await settle();
+    answer("posts/2");
+    await result;
+
+    expect(entry.data.data).toEqual([{ id: 1 }, { id: 3 }]);
+  });
+});
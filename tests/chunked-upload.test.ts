@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { uploadChunked, createUploadState } from "../src/utils/upload";
+
+vi.mock("../src/utils/csrf", () => ({
+  ensureCsrfToken: async () => {},
+  withCsrfToken: (headers: Record<string, string>) => headers,
+}));
+
+let ranges: string[] = [];
+let offsets: (string | null)[] = [];
+
+/**
+ * XMLHttpRequest answering each chunk with the next `Upload-Offset` of `offsets`
+ */
+class FakeXMLHttpRequest {
+  status = 0;
+  responseText = "";
+  statusText = "";
+  upload: { onprogress?: (event: ProgressEvent) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+  private headers: Record<string, string> = {};
+  private responseHeaders = "";
+
+  open() {}
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  getAllResponseHeaders() {
+    return this.responseHeaders;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  send() {
+    ranges.push(this.headers["content-range"]);
+    if (ranges.length > 10) {
+      throw new Error("Chunk resent in a loop");
+    }
+    const offset = offsets.shift();
+    this.status = 200;
+    this.responseText = JSON.stringify({ id: 1 });
+    this.responseHeaders =
+      "content-type: application/json\r\n" +
+      (offset == null ? "" : `upload-offset: ${offset}\r\n`);
+    setTimeout(() => this.onload?.());
+  }
+}
+
+function upload(size = 10) {
+  const form = new FormData();
+  form.append("file", new File(["x".repeat(size)], "data.bin"));
+  const state = createUploadState();
+  return {
+    state,
+    result: uploadChunked("/file_definition", form, {
+      baseURL: "http://app.test/enfyra/api",
+      chunkSize: 4,
+      state,
+      retry: null,
+    }),
+  };
+}
+
+beforeEach(() => {
+  ranges = [];
+  offsets = [];
+  vi.stubGlobal("XMLHttpRequest", FakeXMLHttpRequest);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("uploadChunked", () => {
+  it("sends the file in Content-Range chunks", async () => {
+    const { result, state } = upload();
+
+    await expect(result).resolves.toEqual({ id: 1 });
+    expect(ranges).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 8-9/10"]);
+    expect(state.offset).toBe(10);
+  });
+
+  it("continues at the offset the server reports", async () => {
+    offsets = ["2", null, null, null];
+    const { result } = upload();
+
+    await result;
+
+    expect(ranges).toEqual([
+      "bytes 0-3/10",
+      "bytes 2-5/10",
+      "bytes 6-9/10",
+    ]);
+  });
+
+  it.each([
+    ["does not move forward", "0"],
+    ["points past the file", "11"],
+    ["is not a number", "soon"],
+  ])("fails when the server offset %s", async (_, offset) => {
+    offsets = [offset];
+    const { result, state } = upload();
+
+    await expect(result).rejects.toMatchObject({
+      data: { code: "UPLOAD_OFFSET_INVALID" },
+    });
+    expect(ranges).toHaveLength(1);
+    expect(state.offset).toBe(0);
+  });
+});
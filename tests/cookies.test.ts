@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { defineEventHandler } from "h3";
+import { setEnfyraConfig } from "./stubs/imports";
+import { setAuthCookies, type AuthTokens } from "../src/utils/server/cookies";
+import { createTestClient, createJWT, getSetCookie } from "./helpers/app";
+
+const now = () => Math.floor(Date.now() / 1000);
+
+let tokens: AuthTokens;
+let remember = false;
+
+const request = createTestClient((app) => {
+  app.use(
+    defineEventHandler((event) => {
+      setAuthCookies(event, tokens, remember);
+      return "ok";
+    })
+  );
+});
+
+async function login(
+  next: AuthTokens,
+  options: { remember?: boolean; cookie?: Record<string, any> } = {}
+) {
+  setEnfyraConfig({ server: { cookie: options.cookie || {} } });
+  tokens = next;
+  remember = options.remember ?? false;
+  return request("/");
+}
+
+function maxAge(cookie: string | undefined): number | undefined {
+  const match = cookie?.match(/Max-Age=(\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+const jwtTokens = (): AuthTokens => ({
+  accessToken: createJWT({ exp: now() + 900 }),
+  refreshToken: createJWT({ exp: now() + 86_400 }),
+  expTime: (now() + 900) * 1000,
+});
+
+describe("auth cookie policy", () => {
+  it("defaults to httpOnly, secure, lax cookies on /", async () => {
+    const response = await login(jwtTokens());
+
+    for (const name of ["accessToken", "refreshToken", "expTime"]) {
+      const cookie = getSetCookie(response, name);
+      expect(cookie).toMatch(/Path=\//);
+      expect(cookie).toMatch(/HttpOnly/);
+      expect(cookie).toMatch(/Secure/);
+      expect(cookie).toMatch(/SameSite=Lax/);
+    }
+  });
+
+  it("applies prefix, names, domain, sameSite and secure", async () => {
+    const response = await login(jwtTokens(), {
+      cookie: {
+        prefix: "app_",
+        names: { accessToken: "at" },
+        domain: ".example.com",
+        path: "/app",
+        sameSite: "strict",
+        secure: false,
+      },
+    });
+
+    const cookie = getSetCookie(response, "app_at");
+    expect(cookie).toMatch(/Domain=\.example\.com/);
+    expect(cookie).toMatch(/Path=\/app/);
+    expect(cookie).toMatch(/SameSite=Strict/);
+    expect(cookie).not.toMatch(/Secure/);
+    expect(getSetCookie(response, "app_refreshToken")).toBeTruthy();
+    expect(getSetCookie(response, "accessToken")).toBeUndefined();
+  });
+
+  it("keeps a session without remember in browser-session cookies", async () => {
+    const response = await login(jwtTokens());
+
+    expect(maxAge(getSetCookie(response, "accessToken"))).toBeCloseTo(900, -1);
+    expect(maxAge(getSetCookie(response, "refreshToken"))).toBeUndefined();
+    expect(maxAge(getSetCookie(response, "expTime"))).toBeUndefined();
+    expect(getSetCookie(response, "remember")).toMatch(/Max-Age=0/);
+  });
+
+  it("persists a remembered session for the refresh token lifetime", async () => {
+    const response = await login(jwtTokens(), { remember: true });
+
+    expect(maxAge(getSetCookie(response, "accessToken"))).toBeCloseTo(900, -1);
+    expect(maxAge(getSetCookie(response, "refreshToken"))).toBeCloseTo(86_400, -1);
+    expect(getSetCookie(response, "remember")).toMatch(/^remember=1;/);
+  });
+
+  it("falls back to refreshTokenMaxAge for an opaque refresh token", async () => {
+    const response = await login(
+      { ...jwtTokens(), refreshToken: "opaque-refresh" },
+      { remember: true, cookie: { refreshTokenMaxAge: 3_600 } }
+    );
+
+    expect(maxAge(getSetCookie(response, "refreshToken"))).toBe(3_600);
+  });
+
+  it.each([
+    ["milliseconds", () => (now() + 600) * 1000],
+    ["seconds", () => now() + 600],
+    ["a numeric string", () => String(now() + 600)],
+    ["a date string", () => new Date((now() + 600) * 1000).toISOString()],
+  ])("expires an opaque access token with expTime in %s", async (_, expTime) => {
+    const response = await login({
+      accessToken: "opaque-access",
+      refreshToken: "opaque-refresh",
+      expTime: expTime(),
+    });
+
+    expect(maxAge(getSetCookie(response, "accessToken"))).toBeCloseTo(600, -1);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createRouter, defineEventHandler } from "h3";
+import { setEnfyraConfig } from "./stubs/imports";
+import csrfMiddleware from "../src/runtime/server/middleware/csrf";
+import csrfRoute from "../src/runtime/server/api/csrf.get";
+import { createTestClient, getSetCookies, getSetCookie } from "./helpers/app";
+
+const request = createTestClient((app) => {
+  app.use(csrfMiddleware);
+  app.use(
+    createRouter()
+      .get("/enfyra/api/csrf", csrfRoute)
+      .use("/enfyra/api/**", defineEventHandler(() => ({ ok: true })))
+      .use("/page", defineEventHandler(() => "<html></html>"))
+      .use("/api/**", defineEventHandler(() => ({ ok: true })))
+  );
+});
+
+async function issueToken(): Promise<string> {
+  const response = await request("/enfyra/api/csrf");
+  return (await response.json()).token;
+}
+
+function write(path: string, headers: Record<string, string>, method = "POST") {
+  return request(path, { method, headers: { host: "app.test", ...headers } });
+}
+
+beforeEach(() => {
+  setEnfyraConfig({
+    public: { apiPrefix: "/enfyra/api" },
+    server: {
+      cookie: { secure: false },
+      csrf: {
+        exclude: ["/webhooks/**"],
+        trustedOrigins: ["https://admin.example.com"],
+      },
+    },
+  });
+});
+
+describe("CSRF token", () => {
+  it("is issued as a readable cookie on page loads", async () => {
+    const response = await request("/page", { headers: { accept: "text/html" } });
+
+    expect(getSetCookie(response, "enfyraCsrf")).toMatch(/SameSite=Lax/);
+    expect(getSetCookie(response, "enfyraCsrf")).not.toMatch(/HttpOnly/);
+  });
+
+  it("is issued once and returned by the CSRF route", async () => {
+    const response = await request("/enfyra/api/csrf");
+    const { token } = await response.json();
+
+    expect(token).toHaveLength(43);
+    expect(getSetCookies(response).enfyraCsrf).toBe(token);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+
+    const again = await request("/enfyra/api/csrf", {
+      headers: { cookie: `enfyraCsrf=${token}` },
+    });
+    expect((await again.json()).token).toBe(token);
+    expect(getSetCookie(again, "enfyraCsrf")).toBeUndefined();
+  });
+});
+
+describe("CSRF check", () => {
+  it("accepts a write echoing the cookie in the header", async () => {
+    const token = await issueToken();
+
+    const response = await write("/enfyra/api/posts", {
+      cookie: `enfyraCsrf=${token}`,
+      "x-enfyra-csrf": token,
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    ["without a token", (token: string) => ({ cookie: `enfyraCsrf=${token}` })],
+    ["without the cookie", (token: string) => ({ "x-enfyra-csrf": token })],
+    [
+      "with another token",
+      (token: string) => ({
+        cookie: `enfyraCsrf=${token}`,
+        "x-enfyra-csrf": `${token.slice(1)}A`,
+      }),
+    ],
+  ])("rejects a write %s", async (_, headers) => {
+    const token = await issueToken();
+
+    const response = await write("/enfyra/api/posts", headers(token));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).data).toEqual({ code: "CSRF_INVALID" });
+  });
+
+  it("checks login and logout like any other write", async () => {
+    expect((await write("/enfyra/api/login", {})).status).toBe(403);
+    expect((await write("/enfyra/api/logout", {})).status).toBe(403);
+  });
+
+  it.each([
+    ["the app's own origin", "http://app.test", 200],
+    ["a trusted origin", "https://admin.example.com", 200],
+    ["a foreign origin", "https://evil.test", 403],
+    ["an opaque origin", "null", 403],
+  ])("answers a write from %s", async (_, origin, status) => {
+    const token = await issueToken();
+
+    const response = await write(
+      "/enfyra/api/posts",
+      { cookie: `enfyraCsrf=${token}`, "x-enfyra-csrf": token, origin },
+      "DELETE"
+    );
+
+    expect(response.status).toBe(status);
+  });
+
+  it("skips excluded paths and routes outside the SDK", async () => {
+    expect((await write("/enfyra/api/webhooks/stripe", {})).status).toBe(200);
+    expect((await write("/api/contact", {})).status).toBe(200);
+  });
+
+  it("skips requests authenticated only by a bearer token", async () => {
+    const response = await write("/enfyra/api/posts", {
+      authorization: "Bearer service-token",
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it("checks requests whose Authorization header is not a bearer token", async () => {
+    const response = await write("/enfyra/api/posts", { authorization: "x" });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("checks bearer requests that also send the auth cookies", async () => {
+    const response = await write("/enfyra/api/posts", {
+      authorization: "Bearer service-token",
+      cookie: "accessToken=user-token",
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("is off with csrf: false", async () => {
+    setEnfyraConfig({
+      public: { apiPrefix: "/enfyra/api" },
+      server: { csrf: false },
+    });
+
+    expect((await write("/enfyra/api/posts", {})).status).toBe(200);
+  });
+});
@@ -0,0 +1,41 @@
+import { createApp, toWebHandler, type App } from "h3";
+
+/**
+ * Unsigned JWT, the SDK only reads the claims
+ */
+export function createJWT(claims: Record<string, any>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode(claims)}.sig`;
+}
+
+/**
+ * `name=value` pairs of the Set-Cookie headers of a response
+ */
+export function getSetCookies(response: Response): Record<string, string> {
+  return Object.fromEntries(
+    response.headers.getSetCookie().map((cookie) => {
+      const [pair] = cookie.split(";");
+      const index = pair.indexOf("=");
+      return [pair.slice(0, index), decodeURIComponent(pair.slice(index + 1))];
+    })
+  );
+}
+
+export function getSetCookie(response: Response, name: string): string | undefined {
+  return response.headers
+    .getSetCookie()
+    .find((cookie) => cookie.startsWith(`${name}=`));
+}
+
+/**
+ * Send requests to an h3 app like a browser on http://app.test would
+ */
+export function createTestClient(setup: (app: App) => void) {
+  const app = createApp();
+  setup(app);
+  const handler = toWebHandler(app);
+
+  return (path: string, init: RequestInit = {}) =>
+    handler(new Request(new URL(path, "http://app.test"), init));
+}
@@ -0,0 +1,119 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createJWT } from "./app";
+import { startServer, readBody, sendJSON } from "./server";
+
+interface PendingCode {
+  challenge: string;
+  nonce: string;
+  redirectUri: string;
+  clientId: string;
+}
+
+export interface MockOIDCServer {
+  url: string;
+  /** Issuer whose discovery document fails */
+  brokenIssuer: string;
+  /** Bodies received by the Enfyra exchange endpoint */
+  exchanges: any[];
+  /** Answer the authorization request like a consenting user, returns the callback URL */
+  authorize: (authorizationUrl: string) => string;
+  /** Nonce put in the next ID tokens instead of the requested one */
+  overrideNonce: (nonce: string | null) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Local OIDC provider with discovery, PKCE checking token endpoint and the
+ * Enfyra `/auth/oauth` exchange on the same origin
+ */
+export async function startMockOIDCServer(): Promise<MockOIDCServer> {
+  const codes = new Map<string, PendingCode>();
+  const exchanges: any[] = [];
+  let nonceOverride: string | null = null;
+  let url = "";
+
+  const server = await startServer(async (request, response) => {
+    const send = (status: number, body: unknown) =>
+      sendJSON(response, status, body);
+    const path = new URL(request.url || "/", url).pathname;
+
+    if (path === "/.well-known/openid-configuration") {
+      return send(200, {
+        issuer: url,
+        authorization_endpoint: `${url}/authorize`,
+        token_endpoint: `${url}/token`,
+      });
+    }
+
+    if (path === "/broken/.well-known/openid-configuration") {
+      return send(500, { error: "unavailable" });
+    }
+
+    if (path === "/token" && request.method === "POST") {
+      const form = new URLSearchParams(await readBody(request));
+      const pending = codes.get(form.get("code") || "");
+      codes.delete(form.get("code") || "");
+      const verifier = form.get("code_verifier") || "";
+
+      if (
+        !pending ||
+        form.get("grant_type") !== "authorization_code" ||
+        form.get("client_id") !== pending.clientId ||
+        form.get("redirect_uri") !== pending.redirectUri ||
+        createHash("sha256").update(verifier).digest("base64url") !==
+          pending.challenge
+      ) {
+        return send(400, { error: "invalid_grant" });
+      }
+
+      return send(200, {
+        access_token: "provider-access-token",
+        id_token: createJWT({
+          iss: url,
+          sub: "user-1",
+          nonce: nonceOverride ?? pending.nonce,
+        }),
+      });
+    }
+
+    if (path === "/auth/oauth" && request.method === "POST") {
+      const body = JSON.parse(await readBody(request));
+      exchanges.push(body);
+      const now = Math.floor(Date.now() / 1000);
+      return send(200, {
+        accessToken: createJWT({ sub: "user-1", exp: now + 900 }),
+        refreshToken: createJWT({ sub: "user-1", exp: now + 86_400 }),
+        expTime: (now + 900) * 1000,
+      });
+    }
+
+    send(404, { error: "not_found" });
+  });
+
+  url = server.url;
+
+  return {
+    url,
+    brokenIssuer: `${url}/broken`,
+    exchanges,
+    authorize(authorizationUrl) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = randomBytes(8).toString("hex");
+      codes.set(code, {
+        challenge: params.get("code_challenge") || "",
+        nonce: params.get("nonce") || "",
+        redirectUri: params.get("redirect_uri") || "",
+        clientId: params.get("client_id") || "",
+      });
+
+      const callback = new URL(params.get("redirect_uri") || "");
+      callback.searchParams.set("code", code);
+      callback.searchParams.set("state", params.get("state") || "");
+      return callback.toString();
+    },
+    overrideNonce(nonce) {
+      nonceOverride = nonce;
+    },
+    close: server.close,
+  };
+}
@@ -0,0 +1,190 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import { createRouter } from "h3";
+import { setEnfyraConfig, useNitroApp } from "./stubs/imports";
+import oauthStart from "../src/runtime/server/api/oauth.get";
+import oauthCallback from "../src/runtime/server/api/oauth-callback.get";
+import { createTestClient, getSetCookies, getSetCookie } from "./helpers/app";
+import { startMockOIDCServer, type MockOIDCServer } from "./helpers/oidc";
+
+let oidc: MockOIDCServer;
+
+const request = createTestClient((app) => {
+  app.use(
+    createRouter()
+      .get("/enfyra/api/oauth/:provider", oauthStart)
+      .get("/enfyra/api/oauth/:provider/callback", oauthCallback)
+  );
+});
+
+/**
+ * Start a login and let the mock provider answer it
+ */
+async function startLogin(provider = "mock", query = "?redirect=/posts/1") {
+  const response = await request(`/enfyra/api/oauth/${provider}${query}`);
+  const stateCookie = getSetCookies(response).enfyraOAuth;
+  return {
+    response,
+    authorizationUrl: response.headers.get("location") || "",
+    cookie: stateCookie ? `enfyraOAuth=${encodeURIComponent(stateCookie)}` : "",
+  };
+}
+
+function callback(url: string, cookie: string) {
+  const { pathname, search } = new URL(url);
+  return request(`${pathname}${search}`, { headers: { cookie } });
+}
+
+beforeAll(async () => {
+  oidc = await startMockOIDCServer();
+});
+
+afterAll(async () => {
+  await oidc.close();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  oidc.overrideNonce(null);
+  oidc.exchanges.length = 0;
+  setEnfyraConfig({
+    public: {
+      apiUrl: oidc.url,
+      apiPrefix: "/enfyra/api",
+      redirects: { login: "/login" },
+    },
+    server: {
+      cookie: { secure: false },
+      oauth: {
+        mock: { issuer: oidc.url, clientId: "enfyra-app", clientSecret: "" },
+        broken: { issuer: oidc.brokenIssuer, clientId: "enfyra-app", clientSecret: "" },
+      },
+    },
+  });
+});
+
+describe("OAuth login", () => {
+  it("completes the PKCE, state and nonce round trip", async () => {
+    const onLogin = vi.fn();
+    useNitroApp().hooks.hook("enfyra:login", onLogin);
+
+    const { response, authorizationUrl, cookie } = await startLogin();
+    expect(response.status).toBe(302);
+
+    const params = new URL(authorizationUrl).searchParams;
+    expect(authorizationUrl.startsWith(`${oidc.url}/authorize`)).toBe(true);
+    expect(params.get("client_id")).toBe("enfyra-app");
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("state")).toBeTruthy();
+    expect(params.get("nonce")).toBeTruthy();
+    expect(getSetCookie(response, "enfyraOAuth")).toMatch(
+      /Path=\/enfyra\/api\/oauth; .*HttpOnly; SameSite=Lax/
+    );
+
+    const done = await callback(oidc.authorize(authorizationUrl), cookie);
+
+    expect(done.status).toBe(302);
+    expect(done.headers.get("location")).toBe("/posts/1");
+    const cookies = getSetCookies(done);
+    expect(cookies.accessToken).toBeTruthy();
+    expect(cookies.refreshToken).toBeTruthy();
+    expect(cookies.enfyraOAuth).toBe("");
+    expect(oidc.exchanges).toEqual([
+      {
+        provider: "mock",
+        idToken: expect.any(String),
+        accessToken: "provider-access-token",
+      },
+    ]);
+    expect(onLogin).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "mock", remember: false })
+    );
+  });
+
+  it("rejects a callback whose state does not match the cookie", async () => {
+    const { authorizationUrl, cookie } = await startLogin();
+    const url = new URL(oidc.authorize(authorizationUrl));
+    url.searchParams.set("state", "forged");
+
+    const response = await callback(url.toString(), cookie);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("/login?error=OAUTH_STATE_INVALID");
+    expect(getSetCookies(response).accessToken).toBeUndefined();
+    expect(oidc.exchanges).toHaveLength(0);
+  });
+
+  it("rejects a callback without the state cookie", async () => {
+    const { authorizationUrl } = await startLogin();
+
+    const response = await callback(oidc.authorize(authorizationUrl), "");
+
+    expect(response.headers.get("location")).toBe("/login?error=OAUTH_STATE_INVALID");
+    expect(oidc.exchanges).toHaveLength(0);
+  });
+
+  it("rejects an ID token issued for another nonce", async () => {
+    const { authorizationUrl, cookie } = await startLogin();
+    oidc.overrideNonce("replayed");
+
+    const response = await callback(oidc.authorize(authorizationUrl), cookie);
+
+    expect(response.headers.get("location")).toBe(
+      "/login?error=OAUTH_FAILED&redirect=%2Fposts%2F1"
+    );
+    expect(getSetCookies(response).accessToken).toBeUndefined();
+    expect(oidc.exchanges).toHaveLength(0);
+  });
+
+  it("fails when the code was not issued for the PKCE verifier", async () => {
+    const first = await startLogin();
+    const second = await startLogin();
+
+    // The code of the first login redeemed with the second login's cookie
+    const url = new URL(oidc.authorize(first.authorizationUrl));
+    url.searchParams.set(
+      "state",
+      new URL(second.authorizationUrl).searchParams.get("state") || ""
+    );
+    const response = await callback(url.toString(), second.cookie);
+
+    expect(response.headers.get("location")).toContain("error=OAUTH_FAILED");
+    expect(oidc.exchanges).toHaveLength(0);
+  });
+
+  it("sends the user back with an error when discovery fails", async () => {
+    const { response, cookie } = await startLogin("broken");
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe(
+      "/login?error=OAUTH_FAILED&redirect=%2Fposts%2F1"
+    );
+    expect(cookie).toBe("");
+  });
+
+  it("answers 404 for unknown providers", async () => {
+    const { response } = await startLogin("unknown");
+
+    expect(response.status).toBe(404);
+  });
+
+  it("drops redirects that leave the app", async () => {
+    const { authorizationUrl, cookie } = await startLogin("mock", "?redirect=//evil.test");
+
+    const response = await callback(oidc.authorize(authorizationUrl), cookie);
+
+    expect(response.headers.get("location")).toBe("/");
+  });
+});
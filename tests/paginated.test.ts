@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ref } from "vue";
+import { useEnfyraPaginated } from "../src/composables/useEnfyraPaginated";
+
+type Deferred = {
+  page: number;
+  resolve: (value: any) => void;
+};
+
+let calls: Deferred[] = [];
+
+vi.mock("../src/composables/useEnfyraApi", () => ({
+  useEnfyraApi: (_path: string, options: any) => {
+    const data = ref<any>(null);
+    const pending = ref(false);
+    return {
+      data,
+      pending,
+      error: ref(null),
+      abort: () => {},
+      execute: () =>
+        new Promise((resolve) => {
+          pending.value = true;
+          calls.push({
+            page: options.query.value.page,
+            resolve: (value) => {
+              pending.value = false;
+              data.value = value;
+              resolve(value);
+            },
+          });
+        }),
+    };
+  },
+}));
+
+function pageOf(page: number) {
+  return {
+    data: [`row-${page}`],
+    meta: { totalCount: 10, filterCount: 10 },
+  };
+}
+
+function answer(index: number, value: any = pageOf(calls[index].page)) {
+  calls[index].resolve(value);
+}
+
+async function loadFirstPage() {
+  const list = useEnfyraPaginated<string>("/posts", { limit: 1, immediate: false });
+  const loaded = list.refresh();
+  answer(0);
+  await loaded;
+  return list;
+}
+
+beforeEach(() => {
+  calls = [];
+});
+
+describe("useEnfyraPaginated", () => {
+  it("appends the next page on loadMore", async () => {
+    const list = await loadFirstPage();
+
+    const more = list.loadMore();
+    answer(1);
+    await more;
+
+    expect(list.items.value).toEqual(["row-1", "row-2"]);
+    expect(list.page.value).toBe(2);
+  });
+
+  it("asks for a failed page again on the next loadMore", async () => {
+    const list = await loadFirstPage();
+
+    const more = list.loadMore();
+    answer(1, null);
+    await more;
+    expect(list.items.value).toEqual(["row-1"]);
+    expect(list.page.value).toBe(1);
+    expect(calls).toHaveLength(2);
+
+    const retry = list.loadMore();
+    expect(calls[2].page).toBe(2);
+    answer(2);
+    await retry;
+    expect(list.items.value).toEqual(["row-1", "row-2"]);
+
+    const next = list.goTo(5);
+    answer(3);
+    await next;
+
+    expect(list.items.value).toEqual(["row-5"]);
+  });
+
+  it("drops a response superseded by a newer page change", async () => {
+    const list = await loadFirstPage();
+
+    const more = list.loadMore();
+    const jump = list.goTo(7);
+    answer(2);
+    await jump;
+    answer(1);
+    await more;
+
+    expect(list.page.value).toBe(7);
+    expect(list.items.value).toEqual(["row-7"]);
+  });
+});
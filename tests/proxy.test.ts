@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createRouter } from "h3";
+import { setEnfyraConfig, useNitroApp } from "./stubs/imports";
+import proxyRoute from "../src/runtime/server/api/all";
+import type { EnfyraProxyContext } from "../src/types";
+import { createTestClient } from "./helpers/app";
+import { startServer, sendJSON, type TestServer } from "./helpers/server";
+
+let backend: TestServer;
+let received: string[] = [];
+
+const request = createTestClient((app) => {
+  app.use(createRouter().use("/enfyra/api/**", proxyRoute));
+});
+
+function setPolicy(proxy: Record<string, any>) {
+  setEnfyraConfig({
+    public: { apiUrl: backend.url, apiPrefix: "/enfyra/api" },
+    server: { proxy },
+  });
+}
+
+beforeAll(async () => {
+  backend = await startServer((req, res) => {
+    received.push(`${req.method} ${req.url}`);
+    sendJSON(res, 200, { ok: true });
+  });
+});
+
+afterAll(async () => {
+  await backend.close();
+});
+
+beforeEach(() => {
+  received = [];
+  setPolicy({
+    allow: ["/posts/**", { path: "/comments/**", methods: ["GET"] }],
+    deny: ["/posts/*/secret"],
+  });
+});
+
+describe("proxy policy", () => {
+  it("forwards allowed paths and methods", async () => {
+    const response = await request("/enfyra/api/posts/1?fields=id");
+
+    expect(response.status).toBe(200);
+    expect(received).toEqual(["GET /posts/1?fields=id"]);
+  });
+
+  it.each([
+    ["a path outside allow", "GET", "/enfyra/api/users"],
+    ["a method outside allow", "DELETE", "/enfyra/api/comments/1"],
+    ["a denied path", "GET", "/enfyra/api/posts/1/secret"],
+    ["dot segments leaving allow", "GET", "/enfyra/api/posts/../users"],
+    ["an encoded separator", "GET", "/enfyra/api/posts/1%2Fsecret"],
+  ])("blocks %s", async (_, method, path) => {
+    const response = await request(path, { method });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).data).toEqual({ code: "FORBIDDEN" });
+    expect(received).toEqual([]);
+  });
+
+  it("answers 404 with blockedStatus: 404", async () => {
+    setPolicy({ deny: ["/users/**"], blockedStatus: 404 });
+
+    const response = await request("/enfyra/api/users/1");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).data).toEqual({ code: "NOT_FOUND" });
+  });
+
+  it("lets the enfyra:proxy hook block or rewrite a request", async () => {
+    useNitroApp().hooks.hook("enfyra:proxy", (ctx: EnfyraProxyContext) => {
+      if (ctx.method !== "GET") {
+        ctx.blocked = true;
+      }
+      ctx.path = ctx.path.replace(/^\/posts\/old/, "/posts/new");
+    });
+
+    expect((await request("/enfyra/api/posts/1", { method: "POST" })).status).toBe(403);
+    expect((await request("/enfyra/api/posts/old")).status).toBe(200);
+    expect(received).toEqual(["GET /posts/new"]);
+  });
+
+  it.each([
+    ["a denied path", "/posts/1/secret"],
+    ["a path outside allow", "/users"],
+    ["dot segments", "/posts/../users"],
+  ])("checks a path rewritten by the hook to %s", async (_, rewritten) => {
+    useNitroApp().hooks.hook("enfyra:proxy", (ctx: EnfyraProxyContext) => {
+      ctx.path = rewritten;
+    });
+
+    const response = await request("/enfyra/api/posts/1");
+
+    expect(response.status).toBe(403);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { computed, ref } from "vue";
+import { enfyraQuery, resolveQuery, serializeQuery } from "../src/utils/query";
+
+interface Post {
+  id: number;
+  title: string;
+  views: number;
+  author: { name: string };
+}
+
+describe("enfyraQuery", () => {
+  it("nests dotted paths and joins several conditions with _and", () => {
+    const query = enfyraQuery<Post>()
+      .where("author.name", "_eq", "Jane")
+      .where("views", "_gt", 10)
+      .toQuery();
+
+    expect(query.filter).toEqual({
+      _and: [{ author: { name: { _eq: "Jane" } } }, { views: { _gt: 10 } }],
+    });
+  });
+
+  it("uses a single condition as the filter as is", () => {
+    const query = enfyraQuery<Post>().where("title", "_contains", "nuxt").toQuery();
+
+    expect(query.filter).toEqual({ title: { _contains: "nuxt" } });
+  });
+
+  it("groups orWhere callbacks under _or", () => {
+    const query = enfyraQuery<Post>()
+      .orWhere(
+        (q) => q.where("views", "_eq", 0),
+        (q) => q.where("author.name", "_eq", "Jane")
+      )
+      .toQuery();
+
+    expect(query.filter).toEqual({
+      _or: [{ views: { _eq: 0 } }, { author: { name: { _eq: "Jane" } } }],
+    });
+  });
+
+  it("merges repeated fields, sort and meta calls", () => {
+    const query = enfyraQuery<Post>()
+      .fields(["id"])
+      .fields(["title"])
+      .sort("-views")
+      .sort("id")
+      .meta("totalCount")
+      .meta("filterCount")
+      .toQuery();
+
+    expect(query.fields).toEqual(["id", "title"]);
+    expect(query.sort).toEqual(["-views", "id"]);
+    expect(query.meta).toEqual(["totalCount", "filterCount"]);
+  });
+
+  it("leaves earlier builders untouched", () => {
+    const base = enfyraQuery<Post>().fields(["id"]);
+    base.fields(["title"]).limit(5);
+
+    expect(base.toQuery()).toEqual({ fields: ["id"] });
+  });
+});
+
+describe("resolveQuery", () => {
+  it("resolves a ref holding a builder", () => {
+    const input = ref(enfyraQuery<Post>().page(2));
+
+    expect(resolveQuery(input)).toEqual({ page: 2 });
+  });
+
+  it("resolves a computed getter and follows its changes", () => {
+    const limit = ref(10);
+    const input = computed(() => ({ limit: limit.value }));
+
+    expect(resolveQuery(input)).toEqual({ limit: 10 });
+    limit.value = 20;
+    expect(resolveQuery(input)).toEqual({ limit: 20 });
+  });
+
+  it("returns an empty query for a missing input", () => {
+    expect(resolveQuery()).toEqual({});
+    expect(resolveQuery(ref(null))).toEqual({});
+  });
+});
+
+describe("serializeQuery", () => {
+  it("serializes nested filters as JSON and lists as comma-separated values", () => {
+    const params = serializeQuery(
+      enfyraQuery<Post>()
+        .where("author.name", "_eq", "Jane")
+        .fields(["id", "author.name"])
+        .sort("-views", "id")
+        .meta("totalCount", "filterCount")
+        .page(3)
+        .limit(25)
+    );
+
+    expect(params).toEqual({
+      filter: JSON.stringify({ author: { name: { _eq: "Jane" } } }),
+      fields: "id,author.name",
+      sort: "-views,id",
+      meta: "totalCount,filterCount",
+      page: "3",
+      limit: "25",
+    });
+  });
+
+  it("drops undefined and null values", () => {
+    const params = serializeQuery({
+      page: 1,
+      limit: undefined,
+      filter: null,
+      search: undefined,
+    } as any);
+
+    expect(params).toEqual({ page: "1" });
+  });
+
+  it("serializes a ref to a plain object the same way as the builder", () => {
+    const input = ref({ sort: ["-views"], filter: { views: { _gt: 10 } } });
+
+    expect(serializeQuery(input)).toEqual(
+      serializeQuery(enfyraQuery<Post>().sort("-views").where("views", "_gt", 10))
+    );
+  });
+});
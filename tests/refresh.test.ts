@@ -0,0 +1,151 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import { defineEventHandler } from "h3";
+import { setEnfyraConfig, useNitroApp } from "./stubs/imports";
+import {
+  refreshAccessToken,
+  getRefreshToken,
+} from "../src/utils/server/refreshToken";
+import { refreshSession } from "../src/utils/http";
+import { createTestClient, createJWT, getSetCookies } from "./helpers/app";
+import { startServer, readBody, sendJSON, type TestServer } from "./helpers/server";
+
+let backend: TestServer;
+const spent = new Set<string>();
+let refreshCalls = 0;
+
+const request = createTestClient((app) => {
+  app.use(
+    defineEventHandler(async (event) => ({
+      accessToken: await refreshAccessToken(
+        event,
+        getRefreshToken(event) || "",
+        backend.url
+      ),
+    }))
+  );
+});
+
+function refresh(refreshToken: string) {
+  return request("/", { headers: { cookie: `refreshToken=${refreshToken}` } });
+}
+
+beforeAll(async () => {
+  // Rotates refresh tokens: each one can be exchanged once
+  backend = await startServer(async (req, res) => {
+    const { refreshToken } = JSON.parse(await readBody(req));
+    refreshCalls++;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    if (spent.has(refreshToken)) {
+      return sendJSON(res, 401, { message: "Refresh token reused" });
+    }
+    spent.add(refreshToken);
+    sendJSON(res, 200, {
+      accessToken: createJWT({ exp: Math.floor(Date.now() / 1000) + 900 }),
+      refreshToken: `${refreshToken}-next`,
+      expTime: Date.now() + 900_000,
+    });
+  });
+});
+
+afterAll(async () => {
+  await backend.close();
+});
+
+beforeEach(() => {
+  refreshCalls = 0;
+  setEnfyraConfig({ server: { cookie: { secure: false } } });
+});
+
+describe("server token refresh", () => {
+  it("exchanges a refresh token once for concurrent requests", async () => {
+    const responses = await Promise.all([
+      refresh("concurrent"),
+      refresh("concurrent"),
+      refresh("concurrent"),
+    ]);
+
+    expect(refreshCalls).toBe(1);
+    const bodies = await Promise.all(responses.map((response) => response.json()));
+    expect(new Set(bodies.map((body) => body.accessToken)).size).toBe(1);
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect(getSetCookies(response).refreshToken).toBe("concurrent-next");
+    }
+  });
+
+  it("lets late requests reuse the rotated tokens", async () => {
+    const first = await refresh("late");
+    const late = await refresh("late");
+
+    expect(refreshCalls).toBe(1);
+    expect(late.status).toBe(200);
+    expect((await late.json()).accessToken).toBe((await first.json()).accessToken);
+  });
+
+  it("refreshes different sessions separately", async () => {
+    await Promise.all([refresh("user-a"), refresh("user-b")]);
+
+    expect(refreshCalls).toBe(2);
+  });
+
+  it("reports an expired session when the backend rejects the token", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onExpired = vi.fn();
+    useNitroApp().hooks.hook("enfyra:session:expired", onExpired);
+    spent.add("revoked");
+
+    const response = await refresh("revoked");
+
+    expect(response.ok).toBe(false);
+    expect(onExpired).toHaveBeenCalledOnce();
+    vi.restoreAllMocks();
+  });
+});
+
+describe("client session refresh", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve(new Response(null)), 10))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete (process as any).client;
+  });
+
+  it("shares one refresh call between concurrent 401s", async () => {
+    (process as any).client = true;
+
+    const results = await Promise.all([
+      refreshSession("http://app.test/enfyra/api/"),
+      refreshSession("http://app.test/enfyra/api/"),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(fetchMock.mock.calls[0][0]).toBe("http://app.test/enfyra/api/refresh");
+
+    await refreshSession("http://app.test/enfyra/api/");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("never refreshes from the server, where users would share it", async () => {
+    await expect(refreshSession("http://app.test/enfyra/api/")).resolves.toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
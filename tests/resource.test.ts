@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { setEnfyraConfig } from "./stubs/imports";
+import { useEnfyraResource } from "../src/composables/useEnfyraResource";
+
+type Post = { id: number; title: string };
+
+// Requests answered with a 500, by path or by the title of a created post
+const failing = new Set<string>();
+
+vi.mock("../src/utils/http", () => ({
+  $fetch: async (path: string, options: { method?: string; body?: any }) => {
+    if (failing.has(path) || failing.has(options.body?.title)) {
+      throw { response: { status: 500, data: { message: "Failed" } } };
+    }
+    if (options.method === "post") {
+      return { data: [{ id: options.body.title.length * 10, ...options.body }] };
+    }
+    const id = Number(path.split("/")[1]);
+    if (!id) {
+      return { data: [1, 2, 3].map((id) => ({ id, title: `post ${id}` })) };
+    }
+    return options.method === "patch" ? { data: [{ id, ...options.body }] } : { data: [] };
+  },
+}));
+
+vi.mock("../src/utils/csrf", () => ({
+  isCsrfSafeMethod: () => true,
+  withCsrfToken: (headers: Record<string, string>) => headers,
+}));
+
+async function loadPosts() {
+  const posts = useEnfyraResource<Post>("/posts");
+  await posts.list();
+  return posts;
+}
+
+beforeEach(() => {
+  failing.clear();
+  setEnfyraConfig({ public: { apiPrefix: "/enfyra/api" } });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("useEnfyraResource batches", () => {
+  it("adds the records created before a batch failed", async () => {
+    const posts = await loadPosts();
+    failing.add("bb");
+
+    const result = await posts.createMany(
+      [{ title: "a" }, { title: "bb" }, { title: "ccc" }],
+      { concurrent: 1 }
+    );
+
+    expect(result).toBeNull();
+    expect(posts.items.value.map((post) => post.id)).toEqual([1, 2, 3, 10]);
+  });
+
+  it("removes the items deleted before a batch failed", async () => {
+    const posts = await loadPosts();
+    failing.add("posts/2");
+
+    const result = await posts.removeMany([1, 2, 3], { concurrent: 1 });
+
+    expect(result).toBeNull();
+    expect(posts.error.value).toBeTruthy();
+    expect(posts.items.value.map((post) => post.id)).toEqual([2, 3]);
+  });
+
+  it("updates the items changed before a batch failed", async () => {
+    const posts = await loadPosts();
+    failing.add("posts/2");
+
+    const result = await posts.updateMany([1, 2, 3], { title: "edited" }, { concurrent: 1 });
+
+    expect(result).toBeNull();
+    expect(posts.items.value.map((post) => post.title)).toEqual([
+      "edited",
+      "post 2",
+      "post 3",
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { setEnfyraConfig } from "./stubs/imports";
+import { resolveRetryOptions, withRetry } from "../src/utils/retry";
+import { useEnfyraApi } from "../src/composables/useEnfyraApi";
+
+vi.mock("#imports", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  // Hands back the options, so tests can call the $fetch given to useFetch
+  useFetch: (_url: string, options: any) => options,
+  useRequestHeaders: () => ({}),
+}));
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return { response: { status, headers: new Headers(headers) } };
+}
+
+describe("withRetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries retryable statuses until a request succeeds", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("ok");
+
+    const result = await withRetry(request, {
+      method: "GET",
+      retry: resolveRetryOptions({ delay: 0, jitter: false }),
+    });
+
+    expect(result).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry methods outside retry.methods", async () => {
+    const request = vi.fn().mockRejectedValue(httpError(503));
+
+    await expect(
+      withRetry(request, {
+        method: "POST",
+        retry: resolveRetryOptions({ delay: 0 }),
+      })
+    ).rejects.toEqual(httpError(503));
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for Retry-After within maxDelay", async () => {
+    vi.useFakeTimers();
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce("ok");
+
+    const result = withRetry(request, {
+      method: "GET",
+      retry: resolveRetryOptions({ maxDelay: 5_000 }),
+    });
+
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("fails instead of waiting for a Retry-After above maxDelay", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValue(httpError(429, { "retry-after": "86400" }));
+
+    await expect(
+      withRetry(request, {
+        method: "GET",
+        retry: resolveRetryOptions({ maxDelay: 10_000 }),
+      })
+    ).rejects.toMatchObject({ response: { status: 429 } });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SSR retries", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function useFetchOptions(method: string, retry: any) {
+    setEnfyraConfig({ public: { apiPrefix: "/enfyra/api", retry } });
+    return useEnfyraApi("/posts", { ssr: true, method: method as any }) as any;
+  }
+
+  it("retries useFetch requests with withRetry instead of ofetch's fixed delay", async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce("ok");
+    vi.stubGlobal("$fetch", fetch);
+
+    const options = useFetchOptions("get", { delay: 0 });
+
+    expect(options.retry).toBe(0);
+    await expect(options.$fetch("/enfyra/api/posts", {})).resolves.toBe("ok");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry methods outside retry.methods", async () => {
+    const fetch = vi.fn().mockRejectedValue(httpError(503));
+    vi.stubGlobal("$fetch", fetch);
+
+    const options = useFetchOptions("post", { delay: 0 });
+
+    await expect(options.$fetch("/enfyra/api/posts", {})).rejects.toEqual(httpError(503));
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves useFetch alone without a retry setting", () => {
+    const options = useFetchOptions("get", undefined);
+
+    expect(options.retry).toBe(0);
+    expect(options.$fetch).toBeUndefined();
+  });
+});
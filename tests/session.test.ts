@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { defineEventHandler } from "h3";
+import { setEnfyraConfig } from "./stubs/imports";
+import sessionRoute from "../src/runtime/server/api/session.get";
+import { checkSession } from "../src/utils/session";
+import { refreshSession } from "../src/utils/http";
+import { createTestClient, createJWT } from "./helpers/app";
+
+vi.mock("../src/utils/http", () => ({
+  refreshSession: vi.fn(async () => true),
+}));
+
+vi.mock("../src/composables/useEnfyraAuth", () => ({
+  useEnfyraAuth: () => ({ fetchUser: async () => null }),
+}));
+
+const request = createTestClient((app) => {
+  app.use(defineEventHandler(sessionRoute));
+});
+
+async function getSession(cookie: string) {
+  return (await request("/", { headers: { cookie } })).json();
+}
+
+beforeEach(() => {
+  setEnfyraConfig({ public: { apiPrefix: "/enfyra/api" } });
+});
+
+describe("session route", () => {
+  it("reads the expiry of a JWT access token from exp", async () => {
+    const exp = Math.floor(Date.now() / 1000) + 900;
+
+    const session = await getSession(`accessToken=${createJWT({ exp })}`);
+
+    expect(session).toMatchObject({ authenticated: true, expiresAt: exp * 1000 });
+  });
+
+  it("takes the expiry of an opaque access token from expTime", async () => {
+    const expTime = Date.now() + 900_000;
+
+    const session = await getSession(
+      `accessToken=opaque; refreshToken=opaque-refresh; expTime=${expTime}`
+    );
+
+    expect(session).toMatchObject({ authenticated: true, expiresAt: expTime });
+  });
+
+  it("reports an unknown expiry for an opaque token without expTime", async () => {
+    const session = await getSession("accessToken=opaque; refreshToken=opaque-refresh");
+
+    expect(session).toMatchObject({ authenticated: true, expiresAt: null });
+  });
+
+  it("reports a missing access token as expired", async () => {
+    const session = await getSession("refreshToken=opaque-refresh");
+
+    expect(session.authenticated).toBe(true);
+    expect(session.expiresAt).toBe(session.serverTime);
+  });
+});
+
+describe("session refresh schedule", () => {
+  function reportSession(expiresAt: number | null) {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          authenticated: true,
+          expiresAt,
+          refreshExpiresAt: null,
+          serverTime: Date.now(),
+        })
+      )
+    );
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(refreshSession).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("does not refresh on a timer while the expiry is unknown", async () => {
+    reportSession(null);
+
+    await checkSession();
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(refreshSession).not.toHaveBeenCalled();
+  });
+
+  it("refreshes once shortly before the access token expires", async () => {
+    reportSession(Date.now() + 120_000);
+
+    await checkSession();
+    await vi.advanceTimersByTimeAsync(54_000);
+    expect(refreshSession).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(6_000);
+    expect(refreshSession).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(refreshSession).toHaveBeenCalledOnce();
+  });
+});
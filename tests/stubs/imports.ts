@@ -0,0 +1,55 @@
+import { ref, type Ref } from "vue";
+import type { H3Event } from "h3";
+
+type Hook = (...args: any[]) => any;
+
+let runtimeConfig: Record<string, any> = { public: {} };
+const hooks = new Map<string, Hook[]>();
+
+const nitroApp = {
+  hooks: {
+    hook(name: string, callback: Hook) {
+      hooks.set(name, [...(hooks.get(name) || []), callback]);
+      return () =>
+        hooks.set(name, (hooks.get(name) || []).filter((hook) => hook !== callback));
+    },
+    async callHook(name: string, ...args: any[]) {
+      for (const hook of hooks.get(name) || []) {
+        await hook(...args);
+      }
+    },
+  },
+};
+
+/**
+ * Set the SDK's runtime config, `public.enfyraSDK` and the server-only
+ * `enfyraSDK`, and drop the registered Nitro hooks
+ */
+export function setEnfyraConfig(config: {
+  public?: Record<string, any>;
+  server?: Record<string, any>;
+}) {
+  runtimeConfig = {
+    public: { enfyraSDK: config.public || {} },
+    enfyraSDK: config.server || {},
+  };
+  hooks.clear();
+}
+
+export const useRuntimeConfig = () => runtimeConfig;
+export const useNitroApp = () => nitroApp;
+export const tryUseNuxtApp = () => null;
+
+export const useRequestEvent = (): H3Event | undefined => undefined;
+export const useRequestURL = () => new URL("http://app.test/");
+
+const states = new Map<string, Ref<any>>();
+
+export function useState<T>(key: string, init?: () => T): Ref<T> {
+  if (!states.has(key)) {
+    states.set(key, ref(init?.()));
+  }
+  return states.get(key)!;
+}
+
+export const navigateTo = async (_to: string) => {};
@@ -0,0 +1 @@
+export { useNitroApp } from "./imports";
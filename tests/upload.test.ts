@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { setEnfyraConfig } from "./stubs/imports";
+import { useEnfyraUpload } from "../src/composables/useEnfyraUpload";
+
+type Request = {
+  name: string;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+};
+
+let requests: Request[] = [];
+
+vi.mock("../src/utils/http", () => ({
+  $fetch: (_path: string, options: any) =>
+    new Promise((resolve, reject) => {
+      const file = options.body.get("file") as File;
+      options.signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError"))
+      );
+      requests.push({ name: file.name, resolve, reject });
+    }),
+}));
+
+const file = (name: string) => new File(["content"], name);
+
+async function settle() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+beforeEach(() => {
+  requests = [];
+  setEnfyraConfig({ public: { apiPrefix: "/enfyra/api" } });
+});
+
+describe("useEnfyraUpload", () => {
+  it("uploads files one group at a time", async () => {
+    const uploader = useEnfyraUpload("/file_definition", { concurrent: 1 });
+
+    const result = uploader.upload([file("a.png"), file("b.png")]);
+    await settle();
+    expect(requests.map((request) => request.name)).toEqual(["a.png"]);
+
+    requests[0].resolve({ id: 1 });
+    await settle();
+    requests[1].resolve({ id: 2 });
+
+    expect((await result).succeeded).toBe(2);
+    expect(uploader.pending.value).toBe(false);
+  });
+
+  it("cancels the previous run when upload() is called again", async () => {
+    const uploader = useEnfyraUpload("/file_definition", { concurrent: 1 });
+
+    const first = uploader.upload([file("a.png"), file("b.png")]);
+    await settle();
+    const second = uploader.upload([file("c.png"), file("d.png")]);
+
+    const firstResult = await first;
+    expect(firstResult.cancelled).toBe(2);
+    expect(firstResult.items.map((item) => (item.item as File).name)).toEqual([
+      "a.png",
+      "b.png",
+    ]);
+    expect(uploader.pending.value).toBe(true);
+
+    await settle();
+    expect(requests.map((request) => request.name)).toEqual(["a.png", "c.png"]);
+    requests[1].resolve({ id: 3 });
+    await settle();
+    requests[2].resolve({ id: 4 });
+
+    const secondResult = await second;
+    expect(secondResult.succeeded).toBe(2);
+    expect(requests.map((request) => request.name)).toEqual([
+      "a.png",
+      "c.png",
+      "d.png",
+    ]);
+    expect(uploader.files.value.map((entry) => entry.name)).toEqual(["c.png", "d.png"]);
+    expect(uploader.pending.value).toBe(false);
+  });
+});
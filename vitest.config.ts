@@ -1,8 +1,19 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
+const stub = (file: string) =>
+  fileURLToPath(new URL(`./tests/stubs/${file}`, import.meta.url));
+
 export default defineConfig({
+  resolve: {
+    // Nuxt and Nitro virtual modules, provided by the app at runtime
+    alias: {
+      "#imports": stub("imports.ts"),
+      "#internal/nitro": stub("nitro.ts"),
+    },
+  },
   test: {
     environment: "node",
     include: ["tests/**/*.test.ts"],
   },
-});
\ No newline at end of file
+});